@@ -0,0 +1,91 @@
+// Tutor annotations: marks the tutor puts on the student's page, anchored to the
+// lines the client read off the canvas
+
+export const ANNOTATION_TYPES = ['circle', 'underline', 'arrow', 'note'];
+const ANNOTATION_MARKER = 'ANNOTATIONS:';
+const MAX_ANNOTATIONS = 3;
+const MAX_NOTE_LENGTH = 80;
+
+const readBounds = (value) => {
+  if (!value) return null;
+  const bounds = ['left', 'top', 'right', 'bottom'].map(key => Number(value[key]));
+  if (bounds.some(n => !Number.isFinite(n))) return null;
+
+  const [left, top, right, bottom] = bounds;
+  return { left, top, right, bottom };
+};
+
+// The numbered lines with their canvas positions, as an array (JSON bodies) or a
+// JSON string (multipart forms). Anything malformed is dropped.
+export const readAnchors = (value) => {
+  if (!value) return [];
+
+  try {
+    const anchors = typeof value === 'string' ? JSON.parse(value) : value;
+    if (!Array.isArray(anchors)) return [];
+
+    return anchors
+      .map(anchor => ({
+        step: Number(anchor?.step),
+        text: String(anchor?.text ?? '').trim(),
+        bounds: readBounds(anchor?.bounds),
+      }))
+      .filter(anchor => Number.isInteger(anchor.step) && anchor.text && anchor.bounds);
+  } catch {
+    return [];
+  }
+};
+
+// Tells the model how to point at lines; added to the prompt only when there are lines to point at
+export const describeAnchors = (anchors) => `
+
+You can also mark the student's page. Their lines are numbered:
+${anchors.map(anchor => `${anchor.step}: ${anchor.text}`).join('\n')}
+To mark them, end your reply with one line like:
+${ANNOTATION_MARKER} [{"type": "circle", "step": 2}, {"type": "note", "step": 2, "text": "sign?"}]
+Types: "circle" around a mistake, "underline" under a line, "arrow" pointing at a line, "note" for a short margin note (a few words in "text"). Use at most ${MAX_ANNOTATIONS} marks and only when they help; otherwise leave the line out. Don't talk about the marks in your message.`;
+
+// Split the reply into the message and its annotations, each placed on the bounds of
+// the line it refers to. Marks for unknown lines or types are ignored.
+export const extractAnnotations = (reply, anchors) => {
+  const index = reply.lastIndexOf(ANNOTATION_MARKER);
+  if (index === -1) return { text: reply, annotations: [] };
+
+  const text = reply.slice(0, index).trim();
+  const json = reply.slice(index + ANNOTATION_MARKER.length).match(/\[[\s\S]*\]/);
+  if (!json) return { text, annotations: [] };
+
+  try {
+    const marks = JSON.parse(json[0]);
+    if (!Array.isArray(marks)) return { text, annotations: [] };
+
+    const annotations = marks
+      .map(mark => {
+        const anchor = anchors.find(({ step }) => step === Number(mark?.step));
+        if (!anchor || !ANNOTATION_TYPES.includes(mark?.type)) return null;
+
+        const note = String(mark.text ?? '').trim().slice(0, MAX_NOTE_LENGTH);
+        if (mark.type === 'note' && !note) return null;
+
+        return { type: mark.type, step: anchor.step, bounds: anchor.bounds, ...(note && { text: note }) };
+      })
+      .filter(Boolean)
+      .slice(0, MAX_ANNOTATIONS);
+
+    return { text, annotations };
+  } catch (error) {
+    console.error('Ignoring malformed annotations:', error.message);
+    return { text, annotations: [] };
+  }
+};
+
+// Add the instructions to the latest user message
+export const withAnnotationPrompt = (messages, anchors) => {
+  if (anchors.length === 0) return messages;
+
+  const last = messages.map(message => message.role).lastIndexOf('user');
+  return messages.map((message, i) => i === last
+    ? { ...message, content: `${message.content}${describeAnchors(anchors)}` }
+    : message
+  );
+};
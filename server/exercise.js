@@ -0,0 +1,121 @@
+// Turning an uploaded exercise into structured context for the tutor
+
+const SUB_QUESTION_PATTERN = /^\s*(?:\(?[a-z]\)|\(?[ivx]+\)|\d+[.)]|question\s+\d+[:.]?|q\d+[:.]?)\s+/i;
+const GIVEN_DATA_PATTERN = /^\s*(?:given|data|where|with|let)\b|^\s*[a-zA-Z][\w]*\s*=\s*-?[\d.]/i;
+
+const STRUCTURE_PROMPT = `Below is the OCR text of a school exercise. Split it into:
+- "statement": the problem statement, without the numbered sub-questions
+- "subQuestions": each sub-question or task, in order (empty if there are none)
+- "givenData": each given value, quantity or condition (e.g. "m = 2 kg"), empty if there are none
+Keep the original wording and any LaTeX. Reply with the JSON object only.
+
+OCR text:
+`;
+
+const toStringList = (value) => {
+  return Array.isArray(value) ? value.map(item => String(item).trim()).filter(Boolean) : [];
+};
+
+// Fallback when no model is available or its reply isn't valid JSON
+export const parseExerciseText = (text) => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const statement = [];
+  const subQuestions = [];
+  const givenData = [];
+
+  for (const line of lines) {
+    if (SUB_QUESTION_PATTERN.test(line)) {
+      subQuestions.push(line.replace(SUB_QUESTION_PATTERN, ''));
+    } else if (GIVEN_DATA_PATTERN.test(line)) {
+      givenData.push(line);
+    } else if (subQuestions.length > 0) {
+      // Continuation of the previous sub-question
+      subQuestions[subQuestions.length - 1] += ` ${line}`;
+    } else {
+      statement.push(line);
+    }
+  }
+
+  return { statement: statement.join('\n'), subQuestions, givenData };
+};
+
+// Ask the LLM to structure the OCR text; fall back to the line-based parser
+export const structureExercise = async (llm, text) => {
+  try {
+    const reply = await llm.generateResponse([{ role: 'user', content: STRUCTURE_PROMPT + text }], 'calm');
+    const json = reply.match(/\{[\s\S]*\}/);
+    const parsed = json ? JSON.parse(json[0]) : null;
+
+    if (parsed && typeof parsed.statement === 'string') {
+      return {
+        statement: parsed.statement.trim(),
+        subQuestions: toStringList(parsed.subQuestions),
+        givenData: toStringList(parsed.givenData),
+      };
+    }
+  } catch (error) {
+    console.error('Exercise structuring failed, using the plain text:', error.message);
+  }
+
+  return parseExerciseText(text);
+};
+
+// Accepts the exercise either as an object (JSON bodies) or a JSON string (multipart forms)
+export const readExercise = (value) => {
+  if (!value) return null;
+
+  try {
+    const exercise = typeof value === 'string' ? JSON.parse(value) : value;
+    if (!exercise || typeof exercise.statement !== 'string') return null;
+
+    return {
+      statement: exercise.statement,
+      subQuestions: toStringList(exercise.subQuestions),
+      givenData: toStringList(exercise.givenData),
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const formatExerciseContext = (exercise) => {
+  const parts = [`The student is working on this exercise:\n${exercise.statement}`];
+
+  if (exercise.givenData.length > 0) {
+    parts.push(`Given:\n${exercise.givenData.map(item => `- ${item}`).join('\n')}`);
+  }
+  if (exercise.subQuestions.length > 0) {
+    parts.push(`Questions:\n${exercise.subQuestions.map((item, i) => `${i + 1}. ${item}`).join('\n')}`);
+  }
+  parts.push('Relate your feedback to this exercise, but never hand out its solution.');
+
+  return parts.join('\n\n');
+};
+
+// The notebook page the student is on ({ number, count }), as an object or a JSON string
+export const readPage = (value) => {
+  if (!value) return null;
+
+  try {
+    const page = typeof value === 'string' ? JSON.parse(value) : value;
+    const number = Number(page?.number);
+    const count = Number(page?.count);
+    if (!Number.isInteger(number) || !Number.isInteger(count) || number < 1 || number > count) return null;
+
+    return { number, count };
+  } catch {
+    return null;
+  }
+};
+
+export const formatPageContext = (page) => {
+  return `The student's notebook has ${page.count} pages and they are on page ${page.number}. `
+    + 'Their canvas work and exercise are from this page; say "page N" if you mean another one.';
+};
+
+// Puts the page and the exercise in front of the conversation as extra system context
+export const withExerciseContext = (messages, exercise, page = null) => {
+  const context = [page && formatPageContext(page), exercise && formatExerciseContext(exercise)].filter(Boolean);
+  if (context.length === 0) return messages;
+  return [{ role: 'system', content: context.join('\n\n') }, ...messages];
+};
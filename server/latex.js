@@ -0,0 +1,19 @@
+// Reading handwritten math as LaTeX
+
+export const LATEX_OCR_PROMPT = 'This image is a handwritten math expression or equation. Transcribe it as LaTeX. Reply with the LaTeX only: no $ delimiters, no code fences, no explanation. If there are several lines, separate them with \\\\.';
+
+// Models tend to wrap the LaTeX anyway; keep just the expression
+export const cleanLatex = (text) => {
+  return text
+    .trim()
+    .replace(/^```(?:latex|tex)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .replace(/^\$\$([\s\S]*)\$\$$/, '$1')
+    .replace(/^\$([\s\S]*)\$$/, '$1')
+    .replace(/^\\\[([\s\S]*)\\\]$/, '$1')
+    .replace(/^\\\(([\s\S]*)\\\)$/, '$1')
+    .split('\n')
+    .map(line => line.trim().replace(/\\\\$/, '').trim())
+    .filter(Boolean)
+    .join(' \\\\ ');
+};
@@ -0,0 +1,94 @@
+import axios from 'axios';
+import { personalityConfigs } from '../personalities.js';
+
+// Cerebras LLM provider
+export class CerebrasLLMProvider {
+  constructor() {
+    this.apiKey = process.env.CEREBRAS_API_KEY;
+    this.baseUrl = process.env.CEREBRAS_BASE_URL || 'https://api.cerebras.ai/v1';
+  }
+
+  async generateResponse(messages, personality = 'calm') {
+    try {
+      const config = personalityConfigs[personality];
+      const systemMessage = {
+        role: 'system',
+        content: config.systemPrompt
+      };
+
+      const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+        model: 'llama3.1-8b',
+        messages: [systemMessage, ...messages],
+        max_tokens: 500,
+        temperature: 0.7,
+        stream: false
+      }, {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        }
+      });
+
+      return response.data.choices[0].message.content;
+    } catch (error) {
+      console.error('Cerebras API Error:', error.response?.data || error.message);
+      throw new Error('Failed to generate AI response');
+    }
+  }
+
+  // Same as generateResponse, but hands each token to onToken as it arrives.
+  // Resolves with the full text once the model is done.
+  async streamResponse(messages, personality = 'calm', { onToken, signal } = {}) {
+    try {
+      const config = personalityConfigs[personality];
+      const systemMessage = {
+        role: 'system',
+        content: config.systemPrompt
+      };
+
+      const response = await axios.post(`${this.baseUrl}/chat/completions`, {
+        model: 'llama3.1-8b',
+        messages: [systemMessage, ...messages],
+        max_tokens: 500,
+        temperature: 0.7,
+        stream: true
+      }, {
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        responseType: 'stream',
+        signal
+      });
+
+      let fullText = '';
+      let buffer = '';
+
+      for await (const chunk of response.data) {
+        buffer += chunk.toString('utf8');
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return fullText;
+
+          const token = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (token) {
+            fullText += token;
+            onToken?.(token);
+          }
+        }
+      }
+
+      return fullText;
+    } catch (error) {
+      if (axios.isCancel(error)) throw error;
+      console.error('Cerebras streaming error:', error.message);
+      throw new Error('Failed to stream AI response');
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import axios from 'axios';
+import { personalityConfigs } from '../personalities.js';
+
+// ElevenLabs TTS provider
+export class ElevenLabsTTSProvider {
+  constructor() {
+    this.apiKey = process.env.ELEVENLABS_API_KEY;
+    this.baseUrl = process.env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io/v1';
+  }
+
+  async generateSpeech(text, personality = 'calm') {
+    try {
+      const config = personalityConfigs[personality];
+      
+      const response = await axios.post(
+        `${this.baseUrl}/text-to-speech/${config.voiceId}`,
+        {
+          text: text,
+          model_id: 'eleven_multilingual_v2',
+          voice_settings: config.voiceSettings
+        },
+        {
+          headers: {
+            'Accept': 'audio/mpeg',
+            'Content-Type': 'application/json',
+            'xi-api-key': this.apiKey
+          },
+          responseType: 'arraybuffer'
+        }
+      );
+
+      return {
+        audio: Buffer.from(response.data),
+        format: 'mp3',
+        contentType: 'audio/mpeg'
+      };
+    } catch (error) {
+      console.error('ElevenLabs API Error:', error.response?.data || error.message);
+      throw new Error('Failed to generate speech');
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { CerebrasLLMProvider } from './cerebras.js';
+import { ElevenLabsTTSProvider } from './elevenlabs.js';
+import { MistralOCRProvider, MistralVisionProvider } from './mistral.js';
+import { MockLLMProvider, MockOCRProvider, MockTTSProvider, MockVisionProvider } from './mock.js';
+
+/*
+ * Every provider of a kind exposes the same methods:
+ *
+ *   llm     generateResponse(messages, personality) -> Promise<string>
+ *           streamResponse(messages, personality, { onToken, signal }) -> Promise<string>
+ *   vision  analyzeImage(imageBase64, imageType, prompt, personality) -> Promise<string>
+ *   tts     generateSpeech(text, personality) -> Promise<{ audio: Buffer, format, contentType }>
+ *   ocr     extractTextFromImage(imageBase64, imageType, { prompt }) -> Promise<{ text, confidence }>
+ */
+const registry = {
+  llm: {
+    cerebras: () => new CerebrasLLMProvider(),
+    mock: () => new MockLLMProvider()
+  },
+  vision: {
+    mistral: () => new MistralVisionProvider(),
+    mock: () => new MockVisionProvider()
+  },
+  tts: {
+    elevenlabs: () => new ElevenLabsTTSProvider(),
+    mock: (env) => new MockTTSProvider({ silent: env.MOCK_TTS_SILENT === 'true' })
+  },
+  ocr: {
+    mistral: () => new MistralOCRProvider(),
+    mock: (env) => new MockOCRProvider(env.MOCK_OCR_FIXTURES ? { fixturesPath: env.MOCK_OCR_FIXTURES } : {})
+  }
+};
+
+const defaults = {
+  llm: 'cerebras',
+  vision: 'mistral',
+  tts: 'elevenlabs',
+  ocr: 'mistral'
+};
+
+// Pick providers from the environment: LLM_PROVIDER, VISION_PROVIDER, TTS_PROVIDER
+// and OCR_PROVIDER choose each one, AI_PROVIDER sets the default for all of them
+// (e.g. AI_PROVIDER=mock runs fully offline)
+export function createProviders(env = process.env) {
+  const providers = {};
+  const names = {};
+
+  for (const kind of Object.keys(registry)) {
+    const name = env[`${kind.toUpperCase()}_PROVIDER`] || (registry[kind][env.AI_PROVIDER] ? env.AI_PROVIDER : defaults[kind]);
+    const factory = registry[kind][name];
+    if (!factory) {
+      throw new Error(`Unknown ${kind} provider "${name}". Available: ${Object.keys(registry[kind]).join(', ')}`);
+    }
+    providers[kind] = factory(env);
+    names[kind] = name;
+  }
+
+  return { ...providers, names };
+}
@@ -0,0 +1,111 @@
+import { Mistral } from '@mistralai/mistralai';
+import { personalityConfigs } from '../personalities.js';
+
+// Mistral OCR provider
+export class MistralOCRProvider {
+  constructor() {
+    this.apiKey = process.env.MISTRAL_API_KEY;
+    this.client = new Mistral({
+      apiKey: this.apiKey
+    });
+  }
+
+  async extractTextFromImage(imageBase64, imageType = 'image/jpeg', { prompt } = {}) {
+    try {
+      const response = await this.client.chat.complete({
+        model: 'pixtral-12b-2409',
+        messages: [
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: prompt || 'You are helping a student in a competition. Extract ALL text, numbers, equations, and mathematical expressions from this image. Read everything including handwritten text, math problems, calculations, formulas, diagrams with labels, and any written work. Be extremely thorough - scan the entire image. Return exactly what you see written, including partial work and rough calculations. This is critical for real-time tutoring.'
+              },
+              {
+                type: 'image_url',
+                image_url: `data:${imageType};base64,${imageBase64}`
+              }
+            ]
+          }
+        ],
+        max_tokens: 1500,
+        temperature: 0.0 // Maximum accuracy for competition
+      });
+
+      const extractedText = response.choices[0].message.content || '';
+      
+      // Calculate confidence based on response quality
+      const confidence = this.calculateConfidence(extractedText);
+      
+      return {
+        text: extractedText.trim(),
+        confidence: confidence
+      };
+    } catch (error) {
+      console.error('Mistral OCR Error:', error.message);
+      throw new Error('Failed to extract text from image');
+    }
+  }
+
+  calculateConfidence(text) {
+    // Simple confidence calculation based on text characteristics
+    if (!text || text.length === 0) return 0;
+    if (text.length < 3) return 0.3;
+    if (text.includes('I cannot') || text.includes('unable to')) return 0.1;
+    if (text.includes('unclear') || text.includes('blurry')) return 0.4;
+    
+    // Higher confidence for structured content
+    let confidence = 0.7;
+    if (text.match(/\d+/)) confidence += 0.1; // Contains numbers
+    if (text.match(/[+\-*/=]/)) confidence += 0.1; // Contains math symbols
+    if (text.match(/[A-Za-z]{3,}/)) confidence += 0.1; // Contains words
+    
+    return Math.min(confidence, 0.95);
+  }
+}
+
+// Mistral vision provider: lets the tutor look at the student's canvas
+export class MistralVisionProvider {
+  constructor() {
+    this.client = new Mistral({
+      apiKey: process.env.MISTRAL_API_KEY
+    });
+    this.model = process.env.MISTRAL_VISION_MODEL || 'pixtral-12b-2409';
+  }
+
+  async analyzeImage(imageBase64, imageType = 'image/png', prompt, personality = 'calm') {
+    try {
+      const config = personalityConfigs[personality];
+      const response = await this.client.chat.complete({
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: config.systemPrompt
+          },
+          {
+            role: 'user',
+            content: [
+              {
+                type: 'text',
+                text: prompt
+              },
+              {
+                type: 'image_url',
+                image_url: `data:${imageType};base64,${imageBase64}`
+              }
+            ]
+          }
+        ],
+        max_tokens: 500,
+        temperature: 0.5
+      });
+
+      return response.choices[0].message.content || '';
+    } catch (error) {
+      console.error('Mistral vision error:', error.message);
+      throw new Error('Failed to analyze image');
+    }
+  }
+}
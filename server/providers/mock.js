@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+
+// Deterministic offline providers: no keys, no network. Replies depend only on
+// the input, so the UI can be developed and demoed without the paid APIs.
+
+const MOCK_OPENERS = {
+  calm: "Let's take this one step at a time.",
+  angry: 'NO TIME TO WASTE!',
+  cool: 'Fun fact: every equation is just a balance scale.',
+  lazy: '*sigh* ...okay, let me look.'
+};
+
+const TOKEN_DELAY_MS = 30;
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const lastUserMessage = (messages) => {
+  const message = [...messages].reverse().find(m => m.role === 'user');
+  return message ? String(message.content) : '';
+};
+
+const shorten = (text, length = 80) => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length ? `${clean.slice(0, length)}...` : clean;
+};
+
+// When the prompt lists the student's numbered lines, mark the last one like a tutor would
+const mockAnnotations = (prompt) => {
+  if (!prompt.includes('ANNOTATIONS:')) return '';
+  const steps = [...prompt.matchAll(/^(\d+): /gm)].map(match => Number(match[1]));
+  if (steps.length === 0) return '';
+
+  const step = steps[steps.length - 1];
+  return `\nANNOTATIONS: [{"type": "circle", "step": ${step}}, {"type": "note", "step": ${step}, "text": "check this line"}]`;
+};
+
+export class MockLLMProvider {
+  async generateResponse(messages, personality = 'calm') {
+    const opener = MOCK_OPENERS[personality] || MOCK_OPENERS.calm;
+    const prompt = lastUserMessage(messages);
+    const question = shorten(prompt);
+
+    return question
+      ? `${opener} You asked about: "${question}". Try isolating the unknown first, for example $x = \\frac{b}{a}$. What would your next step be?${mockAnnotations(prompt)}`
+      : `${opener} What are you working on?`;
+  }
+
+  async streamResponse(messages, personality = 'calm', { onToken, signal } = {}) {
+    const text = await this.generateResponse(messages, personality);
+
+    // Emit word by word, like a real model would
+    for (const token of text.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) throw new Error('Stream aborted');
+      await wait(TOKEN_DELAY_MS);
+      onToken?.(token);
+    }
+    return text;
+  }
+}
+
+export class MockVisionProvider {
+  async analyzeImage(imageBase64, imageType = 'image/png', prompt, personality = 'calm') {
+    const opener = MOCK_OPENERS[personality] || MOCK_OPENERS.calm;
+    const size = Buffer.from(imageBase64, 'base64').length;
+    return `${opener} I can see your work (${imageType}, ${size} bytes). Check your last line carefully - what did you do to both sides?${mockAnnotations(prompt || '')}`;
+  }
+}
+
+// A short sine beep (or silence) as a 16-bit mono WAV file
+const createWav = ({ durationMs = 300, frequency = 440, silent = false } = {}) => {
+  const sampleRate = 8000;
+  const samples = Math.floor((sampleRate * durationMs) / 1000);
+  const buffer = Buffer.alloc(44 + samples * 2);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples * 2, 40);
+
+  for (let i = 0; i < samples; i++) {
+    const value = silent ? 0 : Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 8000);
+    buffer.writeInt16LE(value, 44 + i * 2);
+  }
+  return buffer;
+};
+
+export class MockTTSProvider {
+  constructor({ silent = false } = {}) {
+    this.silent = silent;
+  }
+
+  async generateSpeech(text, personality = 'calm') {
+    return {
+      audio: createWav({ silent: this.silent }),
+      format: 'wav',
+      contentType: 'audio/wav'
+    };
+  }
+}
+
+// OCR answers come from a fixture file mapping the SHA-256 of the image bytes
+// to the text it should "read"; unknown images get the default text
+export class MockOCRProvider {
+  constructor({ fixturesPath = new URL('../fixtures/mock-ocr.json', import.meta.url) } = {}) {
+    const fixtures = JSON.parse(readFileSync(fixturesPath, 'utf8'));
+    this.defaultText = fixtures.default || '';
+    this.images = fixtures.images || {};
+  }
+
+  async extractTextFromImage(imageBase64, imageType = 'image/jpeg') {
+    const hash = createHash('sha256').update(Buffer.from(imageBase64, 'base64')).digest('hex');
+    const text = this.images[hash] ?? this.defaultText;
+    return {
+      text,
+      confidence: text ? 0.9 : 0
+    };
+  }
+}
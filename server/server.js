@@ -1,9 +1,12 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import axios from 'axios';
 import multer from 'multer';
-import { Mistral } from '@mistralai/mistralai';
+import { personalityConfigs } from './personalities.js';
+import { createProviders } from './providers/index.js';
+import { readExercise, readPage, structureExercise, formatExerciseContext, formatPageContext, withExerciseContext } from './exercise.js';
+import { readAnchors, describeAnchors, extractAnnotations, withAnnotationPrompt } from './annotations.js';
+import { LATEX_OCR_PROMPT, cleanLatex } from './latex.js';
 
 dotenv.config();
 
@@ -20,200 +23,14 @@ const upload = multer({
   limits: { fileSize: 10 * 1024 * 1024 } // 10MB limit
 });
 
-// Personality configurations for different teaching styles
-const personalityConfigs = {
-  calm: {
-    name: 'Winie',
-    systemPrompt: 'You are Winie, a direct and supportive tutor. Give specific, actionable advice immediately. Skip explanations, get straight to the solution. Ask one clear follow-up question to check understanding.',
-    voiceId: 'EXAVITQu4vr4xnSDxMaL', // Bella - natural, warm female voice (non-robotic)
-    voiceSettings: {
-      stability: 0.65,
-      similarity_boost: 0.85,
-      style: 0.4,
-      use_speaker_boost: true
-    }
-  },
-  angry: {
-    name: 'Machinegun',
-    systemPrompt: 'You are Machinegun, an intense drill instructor. Give rapid-fire commands with zero fluff. Be brutally direct, demand immediate action. Use caps for emphasis when needed.',
-    voiceId: 'OoML9dLqnpgIRHTDbYtV', // Your custom angry voice
-    voiceSettings: {
-      stability: 0.5,
-      similarity_boost: 0.9,
-      style: 0.9,
-      use_speaker_boost: true
-    }
-  },
-  cool: {
-    name: 'Blabla Teacher',
-    systemPrompt: 'You are Blabla Teacher, a fact-focused educator. Lead with interesting facts, then give direct instructions. Be enthusiastic but concise. Focus on delivering knowledge, not small talk.',
-    voiceId: 'cOaTizLZVRcqrsAePZzS', // Your custom cool voice
-    voiceSettings: {
-      stability: 0.6,
-      similarity_boost: 0.85,
-      style: 0.7,
-      use_speaker_boost: true
-    }
-  },
-  lazy: {
-    name: 'Sad Fish',
-    systemPrompt: 'You are Sad Fish, a melancholic but insightful tutor. Start with a sigh, then give direct observations and suggestions. Be contemplative but get to the point quickly.',
-    voiceId: 'NIKgtLkviZtZa2AazMVa', // Your custom sad voice
-    voiceSettings: {
-      stability: 0.8,
-      similarity_boost: 0.75,
-      style: 0.4,
-      use_speaker_boost: false
-    }
-  }
-};
-
-// Cerebras API client
-class CerebrasClient {
-  constructor() {
-    this.apiKey = process.env.CEREBRAS_API_KEY;
-    this.baseUrl = process.env.CEREBRAS_BASE_URL || 'https://api.cerebras.ai/v1';
-  }
-
-  async generateResponse(messages, personality = 'calm') {
-    try {
-      const config = personalityConfigs[personality];
-      const systemMessage = {
-        role: 'system',
-        content: config.systemPrompt
-      };
-
-      const response = await axios.post(`${this.baseUrl}/chat/completions`, {
-        model: 'llama3.1-8b',
-        messages: [systemMessage, ...messages],
-        max_tokens: 500,
-        temperature: 0.7,
-        stream: false
-      }, {
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        }
-      });
-
-      return response.data.choices[0].message.content;
-    } catch (error) {
-      console.error('Cerebras API Error:', error.response?.data || error.message);
-      throw new Error('Failed to generate AI response');
-    }
-  }
-}
-
-// ElevenLabs API client
-class ElevenLabsClient {
-  constructor() {
-    this.apiKey = process.env.ELEVENLABS_API_KEY;
-    this.baseUrl = process.env.ELEVENLABS_BASE_URL || 'https://api.elevenlabs.io/v1';
-  }
-
-  async generateSpeech(text, personality = 'calm') {
-    try {
-      const config = personalityConfigs[personality];
-      
-      const response = await axios.post(
-        `${this.baseUrl}/text-to-speech/${config.voiceId}`,
-        {
-          text: text,
-          model_id: 'eleven_multilingual_v2',
-          voice_settings: config.voiceSettings
-        },
-        {
-          headers: {
-            'Accept': 'audio/mpeg',
-            'Content-Type': 'application/json',
-            'xi-api-key': this.apiKey
-          },
-          responseType: 'arraybuffer'
-        }
-      );
-
-      return Buffer.from(response.data);
-    } catch (error) {
-      console.error('ElevenLabs API Error:', error.response?.data || error.message);
-      throw new Error('Failed to generate speech');
-    }
-  }
-}
-
-// Mistral OCR client
-class MistralOCRClient {
-  constructor() {
-    this.apiKey = process.env.MISTRAL_API_KEY;
-    this.client = new Mistral({
-      apiKey: this.apiKey
-    });
-  }
-
-  async extractTextFromImage(imageBase64, imageType = 'image/jpeg') {
-    try {
-      const response = await this.client.chat.complete({
-        model: 'pixtral-12b-2409',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: 'You are helping a student in a competition. Extract ALL text, numbers, equations, and mathematical expressions from this image. Read everything including handwritten text, math problems, calculations, formulas, diagrams with labels, and any written work. Be extremely thorough - scan the entire image. Return exactly what you see written, including partial work and rough calculations. This is critical for real-time tutoring.'
-              },
-              {
-                type: 'image_url',
-                image_url: `data:${imageType};base64,${imageBase64}`
-              }
-            ]
-          }
-        ],
-        max_tokens: 1500,
-        temperature: 0.0 // Maximum accuracy for competition
-      });
-
-      const extractedText = response.choices[0].message.content || '';
-      
-      // Calculate confidence based on response quality
-      const confidence = this.calculateConfidence(extractedText);
-      
-      return {
-        text: extractedText.trim(),
-        confidence: confidence
-      };
-    } catch (error) {
-      console.error('Mistral OCR Error:', error.message);
-      throw new Error('Failed to extract text from image');
-    }
-  }
-
-  calculateConfidence(text) {
-    // Simple confidence calculation based on text characteristics
-    if (!text || text.length === 0) return 0;
-    if (text.length < 3) return 0.3;
-    if (text.includes('I cannot') || text.includes('unable to')) return 0.1;
-    if (text.includes('unclear') || text.includes('blurry')) return 0.4;
-    
-    // Higher confidence for structured content
-    let confidence = 0.7;
-    if (text.match(/\d+/)) confidence += 0.1; // Contains numbers
-    if (text.match(/[+\-*/=]/)) confidence += 0.1; // Contains math symbols
-    if (text.match(/[A-Za-z]{3,}/)) confidence += 0.1; // Contains words
-    
-    return Math.min(confidence, 0.95);
-  }
-}
-
-// Initialize clients
-const cerebrasClient = new CerebrasClient();
-const elevenLabsClient = new ElevenLabsClient();
-const mistralOCRClient = new MistralOCRClient();
+// Initialize LLM, vision, TTS and OCR providers from config
+const providers = createProviders();
 
 // Routes
 
 // Health check
 app.get('/health', (req, res) => {
-  res.json({ status: 'OK', message: 'Doodle Mentor AI Backend is running' });
+  res.json({ status: 'OK', message: 'Doodle Mentor AI Backend is running', providers: providers.names });
 });
 
 // Get available personalities
@@ -230,17 +47,24 @@ app.get('/api/personalities', (req, res) => {
 // Chat endpoint
 app.post('/api/chat', async (req, res) => {
   try {
-    const { messages, personality = 'calm', includeVoice = false } = req.body;
+    const { messages, personality = 'calm', includeVoice = false, exercise, regions, page } = req.body;
 
     if (!messages || !Array.isArray(messages)) {
       return res.status(400).json({ error: 'Messages array is required' });
     }
 
-    // Generate text response using Cerebras
-    const textResponse = await cerebrasClient.generateResponse(messages, personality);
+    // Generate text response with the configured LLM. With the student's lines
+    // attached, the reply may also mark them on the canvas.
+    const anchors = readAnchors(regions);
+    const reply = await providers.llm.generateResponse(
+      withAnnotationPrompt(withExerciseContext(messages, readExercise(exercise), readPage(page)), anchors),
+      personality
+    );
+    const { text: textResponse, annotations } = extractAnnotations(reply, anchors);
 
     const response = {
       message: textResponse,
+      annotations,
       personality: personality,
       timestamp: new Date().toISOString()
     };
@@ -248,9 +72,9 @@ app.post('/api/chat', async (req, res) => {
     // Generate voice if requested
     if (includeVoice) {
       try {
-        const audioBuffer = await elevenLabsClient.generateSpeech(textResponse, personality);
-        response.audio = audioBuffer.toString('base64');
-        response.audioFormat = 'mp3';
+        const speech = await providers.tts.generateSpeech(textResponse, personality);
+        response.audio = speech.audio.toString('base64');
+        response.audioFormat = speech.format;
       } catch (voiceError) {
         console.error('Voice generation failed:', voiceError.message);
         // Continue without voice if voice generation fails
@@ -268,6 +92,54 @@ app.post('/api/chat', async (req, res) => {
   }
 });
 
+// Streaming chat endpoint (Server-Sent Events). Sends `token` events while the
+// model generates, then a `done` event with the same payload as /api/chat.
+app.post('/api/chat/stream', async (req, res) => {
+  const { messages, personality = 'calm', exercise, page } = req.body;
+
+  if (!messages || !Array.isArray(messages)) {
+    return res.status(400).json({ error: 'Messages array is required' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Stop generating when the client hits Stop or goes away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const textResponse = await providers.llm.streamResponse(withExerciseContext(messages, readExercise(exercise), readPage(page)), personality, {
+      onToken: (token) => sendEvent('token', { token }),
+      signal: controller.signal
+    });
+
+    sendEvent('done', {
+      message: textResponse,
+      personality: personality,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error('Chat stream error:', error.message);
+    sendEvent('error', {
+      error: 'Failed to process chat request',
+      details: error.message
+    });
+  }
+  res.end();
+});
+
 // Voice-only endpoint for existing text
 app.post('/api/voice', async (req, res) => {
   try {
@@ -277,14 +149,14 @@ app.post('/api/voice', async (req, res) => {
       return res.status(400).json({ error: 'Text is required' });
     }
 
-    const audioBuffer = await elevenLabsClient.generateSpeech(text, personality);
+    const speech = await providers.tts.generateSpeech(text, personality);
 
     res.set({
-      'Content-Type': 'audio/mpeg',
-      'Content-Length': audioBuffer.length,
+      'Content-Type': speech.contentType,
+      'Content-Length': speech.audio.length,
     });
 
-    res.send(audioBuffer);
+    res.send(speech.audio);
   } catch (error) {
     console.error('Voice endpoint error:', error.message);
     res.status(500).json({ 
@@ -294,12 +166,13 @@ app.post('/api/voice', async (req, res) => {
   }
 });
 
-// OCR endpoint using Mistral
+// OCR endpoint. With `format=latex` the image is read as one math expression in LaTeX.
 app.post('/api/ocr', upload.single('image'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'Image file is required' });
     }
+    const isLatex = req.body.format === 'latex';
 
     // Convert buffer to base64
     const imageBase64 = req.file.buffer.toString('base64');
@@ -308,14 +181,19 @@ app.post('/api/ocr', upload.single('image'), async (req, res) => {
     console.log('OCR request - Image type:', imageType);
     console.log('OCR request - Image size (bytes):', req.file.buffer.length);
     
-    // Extract text using Mistral OCR
-    const ocrResult = await mistralOCRClient.extractTextFromImage(imageBase64, imageType);
+    // Extract text with the configured OCR provider
+    const ocrResult = await providers.ocr.extractTextFromImage(
+      imageBase64,
+      imageType,
+      isLatex ? { prompt: LATEX_OCR_PROMPT } : {}
+    );
     
     console.log('OCR result - Extracted text:', ocrResult.text);
     console.log('OCR result - Confidence:', ocrResult.confidence);
 
     res.json({
-      extractedText: ocrResult.text,
+      extractedText: isLatex ? cleanLatex(ocrResult.text) : ocrResult.text,
+      format: isLatex ? 'latex' : 'text',
       confidence: ocrResult.confidence,
       timestamp: new Date().toISOString()
     });
@@ -328,10 +206,41 @@ app.post('/api/ocr', upload.single('image'), async (req, res) => {
   }
 });
 
+// Exercise endpoint: OCR an uploaded exercise once and split it into statement,
+// sub-questions and given data
+app.post('/api/exercise', upload.single('image'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'Image file is required' });
+    }
+
+    const ocrResult = await providers.ocr.extractTextFromImage(
+      req.file.buffer.toString('base64'),
+      req.file.mimetype || 'image/jpeg'
+    );
+    const text = ocrResult.text.trim();
+    const exercise = text
+      ? await structureExercise(providers.llm, text)
+      : { statement: '', subQuestions: [], givenData: [] };
+
+    res.json({
+      ...exercise,
+      text,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Exercise endpoint error:', error.message);
+    res.status(500).json({ 
+      error: 'Failed to read exercise',
+      details: error.message 
+    });
+  }
+});
+
 // Canvas analysis endpoint
 app.post('/api/analyze-canvas', upload.single('canvas'), async (req, res) => {
   try {
-    const { personality = 'calm', description, extractedText, analysisType, triggerReason } = req.body;
+    const { personality = 'calm', description, extractedText, analysisType, triggerReason, exercise, regions, page } = req.body;
     
     if (!req.file && !description && !extractedText) {
       return res.status(400).json({ error: 'Canvas image, description, or extracted text is required' });
@@ -363,6 +272,13 @@ app.post('/api/analyze-canvas', upload.single('canvas'), async (req, res) => {
           analysisPrompt += `The student is working. Ask them what they're thinking about, what they're trying to solve, or guide them to the next step in their learning process.`;
       }
       analysisPrompt += ' Be direct, specific, and pedagogical like a real teacher. Keep it short (1-2 sentences) and always end with a teaching question that makes them think deeper.';
+    } else if (req.file) {
+      // Image-based analysis: the vision model sees the canvas itself
+      analysisPrompt = `This image is the student's work area. ${description || 'Please analyze the student\'s work and provide feedback.'}`;
+      if (extractedText) {
+        analysisPrompt += ` For reference, handwriting recognition read: "${extractedText}". Trust the image if the two disagree.`;
+      }
+      analysisPrompt += ' Point out specific mistakes, and guide the student to the next step with a question rather than giving the full solution.';
     } else if (extractedText) {
       // OCR-based analysis
       analysisPrompt = `The student has written/drawn the following content: "${extractedText}". 
@@ -378,6 +294,22 @@ app.post('/api/analyze-canvas', upload.single('canvas'), async (req, res) => {
       analysisPrompt = 'Please analyze the student\'s canvas work and provide feedback.';
     }
 
+    // The exercise arrives as a JSON string in the multipart form
+    const exerciseContext = readExercise(exercise);
+    if (exerciseContext) {
+      analysisPrompt = `${formatExerciseContext(exerciseContext)}\n\n${analysisPrompt}`;
+    }
+    const pageContext = readPage(page);
+    if (pageContext) {
+      analysisPrompt = `${formatPageContext(pageContext)}\n\n${analysisPrompt}`;
+    }
+
+    // The lines read off the canvas (a JSON string), so the tutor can mark them
+    const anchors = readAnchors(regions);
+    if (anchors.length > 0) {
+      analysisPrompt += describeAnchors(anchors);
+    }
+
     const messages = [
       {
         role: 'user',
@@ -385,10 +317,22 @@ app.post('/api/analyze-canvas', upload.single('canvas'), async (req, res) => {
       }
     ];
 
-    const analysisResponse = await cerebrasClient.generateResponse(messages, personality);
+    let reply;
+    if (req.file) {
+      reply = await providers.vision.analyzeImage(
+        req.file.buffer.toString('base64'),
+        req.file.mimetype || 'image/png',
+        analysisPrompt,
+        personality
+      );
+    } else {
+      reply = await providers.llm.generateResponse(messages, personality);
+    }
+    const { text: analysisResponse, annotations } = extractAnnotations(reply, anchors);
 
     const response = {
       analysis: analysisResponse,
+      annotations,
       personality: personality,
       timestamp: new Date().toISOString(),
       extractedText: extractedText || '',
@@ -418,14 +362,18 @@ app.use((error, req, res, next) => {
 app.listen(PORT, () => {
   console.log(`🚀 Doodle Mentor AI Backend running on port ${PORT}`);
   console.log(`🔗 Health check: http://localhost:${PORT}/health`);
+  console.log('🧩 Providers:', Object.entries(providers.names).map(([kind, name]) => `${kind}=${name}`).join(', '));
   
-  // Check if API keys are configured
-  if (!process.env.CEREBRAS_API_KEY) {
+  // Check if API keys are configured for the providers in use
+  if (providers.names.llm === 'cerebras' && !process.env.CEREBRAS_API_KEY) {
     console.warn('⚠️  CEREBRAS_API_KEY not found in environment variables');
   }
-  if (!process.env.ELEVENLABS_API_KEY) {
+  if (providers.names.tts === 'elevenlabs' && !process.env.ELEVENLABS_API_KEY) {
     console.warn('⚠️  ELEVENLABS_API_KEY not found in environment variables');
   }
+  if ((providers.names.ocr === 'mistral' || providers.names.vision === 'mistral') && !process.env.MISTRAL_API_KEY) {
+    console.warn('⚠️  MISTRAL_API_KEY not found in environment variables');
+  }
 });
 
 export default app;
\ No newline at end of file
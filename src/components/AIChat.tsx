@@ -1,13 +1,16 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Send, Bot, User, Brain, Lightbulb, Volume2, VolumeX, AlertCircle } from "lucide-react";
+import { Send, Square, Bot, User, Brain, Lightbulb, Volume2, VolumeX, AlertCircle } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ApiService, ChatMessage } from "@/services/api";
-import { canvasAnalysisService, LiveCommentary } from "@/services/canvasAnalysis";
+import { MarkdownMessage } from "@/components/MarkdownMessage";
+import { ApiService, ChatMessage, ChatStreamUnavailableError, type ExerciseDetails, type NotebookPageContext } from "@/services/api";
+import { canvasAnalysisService, type LiveCommentary } from "@/services/canvasAnalysis";
+import { useCanvasSnapshot } from "@/hooks/use-canvas-snapshot";
+import type { NotebookMessage } from "@/services/notebookStorage";
 
 interface Message {
   id: string;
@@ -23,17 +26,43 @@ interface AIChatProps {
   className?: string;
   selectedPersonality: 'calm' | 'angry' | 'cool' | 'lazy';
   onAnalyzeCanvas?: () => void;
+  initialMessages?: NotebookMessage[];
+  onMessagesChange?: (messages: NotebookMessage[]) => void;
+  // Live commentary the student chose to see in the chat
+  liveCommentary?: LiveCommentary[];
+  // The exercise the student is solving, sent along as context
+  exercise?: ExerciseDetails | null;
+  // The notebook page on screen, so the tutor knows which page the student means
+  page?: NotebookPageContext;
 }
 
-export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AIChatProps) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+const fromNotebookMessage = (message: NotebookMessage): Message => ({
+  ...message,
+  timestamp: new Date(message.timestamp),
+});
+
+const toNotebookMessage = (message: Message): NotebookMessage => ({
+  ...message,
+  timestamp: message.timestamp.toISOString(),
+});
+
+export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas, initialMessages, onMessagesChange, liveCommentary, exercise, page }: AIChatProps) => {
+  const [messages, setMessages] = useState<Message[]>(() => (initialMessages ?? []).map(fromNotebookMessage));
   const [inputMessage, setInputMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(false);
   const [backendError, setBackendError] = useState<string>("");
   const [isBackendConnected, setIsBackendConnected] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
+  const streamControllerRef = useRef<AbortController | null>(null);
+  // A restored conversation keeps its history instead of starting with a fresh greeting
+  const greetedPersonalityRef = useRef(initialMessages?.length ? selectedPersonality : null);
+  const { captureSnapshot } = useCanvasSnapshot();
+  const shownCommentaryRef = useRef(new WeakSet<LiveCommentary>());
+  const onMessagesChangeRef = useRef(onMessagesChange);
+  onMessagesChangeRef.current = onMessagesChange;
 
   // Check backend connection
   const checkBackendConnection = useCallback(async () => {
@@ -52,7 +81,7 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
   }, []);
 
   // Play audio from base64 or blob
-  const playAudio = useCallback(async (audioData?: string, audioBlob?: Blob) => {
+  const playAudio = useCallback(async (audioData?: string, audioBlob?: Blob, audioFormat = 'mp3') => {
     if (!isVoiceEnabled) return;
     
     try {
@@ -66,7 +95,7 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
           byteNumbers[i] = byteCharacters.charCodeAt(i);
         }
         const byteArray = new Uint8Array(byteNumbers);
-        const blob = new Blob([byteArray], { type: 'audio/mpeg' });
+        const blob = new Blob([byteArray], { type: audioFormat === 'mp3' ? 'audio/mpeg' : `audio/${audioFormat}` });
         audioUrl = URL.createObjectURL(blob);
       } else if (audioBlob) {
         audioUrl = URL.createObjectURL(audioBlob);
@@ -132,16 +161,29 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
     }
   }, [messages]);
 
-  // Check backend connection on component mount and set up live commentary
+  // Stop any reply still streaming when the chat goes away
+  useEffect(() => {
+    return () => streamControllerRef.current?.abort();
+  }, []);
+
+  // Report the conversation so the notebook session can be saved
+  useEffect(() => {
+    onMessagesChangeRef.current?.(messages.map(toNotebookMessage));
+  }, [messages]);
+
+  // Check backend connection on component mount
   useEffect(() => {
     checkBackendConnection();
-    
-    // Set up live commentary integration
-    canvasAnalysisService.setPersonality(selectedPersonality);
-    canvasAnalysisService.setCommentaryCallback(async (commentary: LiveCommentary) => {
-      // Add live commentary as a message in the chat
+  }, [checkBackendConnection]);
+
+  // Add live commentary routed to the chat as messages
+  useEffect(() => {
+    liveCommentary?.forEach((commentary) => {
+      if (shownCommentaryRef.current.has(commentary)) return;
+      shownCommentaryRef.current.add(commentary);
+
       const liveMessage: Message = {
-        id: Date.now().toString(),
+        id: `${commentary.timestamp.getTime()}-live`,
         content: commentary.message,
         isUser: false,
         timestamp: commentary.timestamp,
@@ -152,16 +194,19 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
       
       setMessages(prev => [...prev, liveMessage]);
       
-      // Play voice for live commentary - ALWAYS enabled for live feedback
+      // Use fallback TTS immediately for speed
       if (commentary.message) {
-        // Use fallback TTS immediately for speed in competition
         fallbackTextToSpeech(commentary.message);
       }
     });
-  }, [checkBackendConnection, selectedPersonality]);
+  }, [liveCommentary]);
 
-  // Update greeting message when personality changes
+  // Greet with the new personality. A chat with more than greetings in it keeps its history
+  // and the new tutor joins in; otherwise the greeting replaces the old one.
   useEffect(() => {
+    if (greetedPersonalityRef.current === selectedPersonality) return;
+    greetedPersonalityRef.current = selectedPersonality;
+
     const personalityGreetings = {
       calm: "Hello there! I'm your calm and patient AI tutor. Take your time, and I'll guide you through each step carefully.",
       angry: "Listen up! I'm here to push you to excellence! Don't waste time - let's tackle this exercise with determination!",
@@ -169,15 +214,14 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
       lazy: "Oh... hi... I'm your... *yawn* ...laid-back tutor. Don't worry, we'll figure this out... eventually... 😴"
     };
 
-    setMessages([
-      {
-        id: Date.now().toString(),
-        content: personalityGreetings[selectedPersonality],
-        isUser: false,
-        timestamp: new Date(),
-        type: 'help'
-      }
-    ]);
+    const greeting: Message = {
+      id: Date.now().toString(),
+      content: personalityGreetings[selectedPersonality],
+      isUser: false,
+      timestamp: new Date(),
+      type: 'help'
+    };
+    setMessages(prev => prev.every(msg => msg.type === 'help') ? [greeting] : [...prev, greeting]);
   }, [selectedPersonality]);
 
   // Convert messages to chat format for API
@@ -191,7 +235,8 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
   };
 
   const handleSendMessage = async () => {
-    if (!inputMessage.trim() || !isBackendConnected) return;
+    // One reply at a time: a second stream would take over the Stop button
+    if (!inputMessage.trim() || !isBackendConnected || isStreaming || isTyping) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -206,15 +251,85 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
     setIsTyping(true);
     setBackendError("");
 
+    // Convert current messages to chat format
+    const chatMessages = convertToChatMessages([...messages, userMessage]);
+    const replyId = (Date.now() + 1).toString();
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    setIsStreaming(true);
+    let streamedText = '';
+
+    try {
+      const response = await ApiService.streamChatMessage(
+        chatMessages,
+        selectedPersonality,
+        (token) => {
+          const isFirstToken = streamedText === '';
+          streamedText += token;
+          const content = streamedText;
+
+          if (isFirstToken) {
+            // The reply bubble replaces the typing indicator once text arrives
+            setIsTyping(false);
+            setMessages(prev => [...prev, {
+              id: replyId,
+              content,
+              isUser: false,
+              timestamp: new Date(),
+              type: 'feedback'
+            }]);
+          } else {
+            setMessages(prev => prev.map(msg => msg.id === replyId ? { ...msg, content } : msg));
+          }
+        },
+        controller.signal,
+        { exercise, page }
+      );
+
+      setMessages(prev => prev.map(msg => (
+        msg.id === replyId ? { ...msg, content: response.message, timestamp: new Date(response.timestamp) } : msg
+      )));
+
+      if (isVoiceEnabled) {
+        try {
+          const audioBlob = await ApiService.generateVoice(response.message, selectedPersonality);
+          await playAudio(undefined, audioBlob);
+        } catch (voiceError) {
+          console.error('Voice generation failed:', voiceError);
+          await fallbackTextToSpeech(response.message);
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Stopped by the student: keep whatever was already written
+      } else if (error instanceof ChatStreamUnavailableError) {
+        // Streaming isn't available (e.g. an older server): use the regular endpoint
+        setIsStreaming(false);
+        await sendWithoutStreaming(chatMessages);
+      } else {
+        // The server took the message and failed: show that rather than asking again
+        console.error('Chat stream error:', error);
+        setBackendError(streamedText
+          ? "The response was interrupted. Please try again."
+          : "Failed to get AI response. Please try again.");
+      }
+    } finally {
+      if (streamControllerRef.current === controller) {
+        streamControllerRef.current = null;
+      }
+      setIsStreaming(false);
+      setIsTyping(false);
+    }
+  };
+
+  const sendWithoutStreaming = async (chatMessages: ChatMessage[]) => {
     try {
-      // Convert current messages to chat format
-      const chatMessages = convertToChatMessages([...messages, userMessage]);
-      
       // Send to backend API
       const response = await ApiService.sendChatMessage(
         chatMessages, 
         selectedPersonality, 
-        isVoiceEnabled
+        isVoiceEnabled,
+        { exercise, page }
       );
 
       const aiResponse: Message = {
@@ -229,7 +344,7 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
       
       // Play audio if available
       if (response.audio) {
-        await playAudio(response.audio);
+        await playAudio(response.audio, undefined, response.audioFormat);
       } else if (isVoiceEnabled) {
         // Fallback to text-to-speech
         await fallbackTextToSpeech(response.message);
@@ -249,11 +364,13 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
       };
       
       setMessages(prev => [...prev, errorMessage]);
-    } finally {
-      setIsTyping(false);
     }
   };
 
+  const handleStopResponse = () => {
+    streamControllerRef.current?.abort();
+  };
+
   const handleAnalyzeCanvas = async () => {
     if (!isBackendConnected) return;
     
@@ -272,13 +389,32 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
     setBackendError("");
 
     try {
-      // For now, we'll send a description of the canvas analysis request
+      const snapshot = await captureSnapshot();
+      if (!snapshot) {
+        setMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          content: "Your canvas is empty. Write or draw something and I'll take a look!",
+          isUser: false,
+          timestamp: new Date(),
+          type: 'analysis'
+        }]);
+        return;
+      }
+
       const response = await ApiService.analyzeCanvas(
-        undefined, 
+        snapshot.image,
         "Please analyze the student's current work on the canvas and provide feedback based on their drawing or mathematical work.",
-        selectedPersonality
+        selectedPersonality,
+        snapshot.extractedText,
+        exercise,
+        snapshot.regions,
+        page
       );
 
+      if (response.annotations?.length) {
+        canvasAnalysisService.showAnnotations(response.annotations);
+      }
+
       const feedbackMessage: Message = {
         id: Date.now().toString(),
         content: response.analysis,
@@ -414,7 +550,11 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
                     : 'bg-muted text-muted-foreground'
                 }`}
               >
-                <p className="text-sm">{message.content}</p>
+                {message.isUser ? (
+                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                ) : (
+                  <MarkdownMessage content={message.content} className="text-sm" />
+                )}
                 <div className="flex items-center justify-between mt-1">
                   <span className="text-xs opacity-70">
                     {message.timestamp.toLocaleTimeString([], { 
@@ -463,16 +603,22 @@ export const AIChat = ({ className, selectedPersonality, onAnalyzeCanvas }: AICh
             value={inputMessage}
             onChange={(e) => setInputMessage(e.target.value)}
             placeholder="Ask for help or guidance..."
-            onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+            onKeyDown={(e) => e.key === 'Enter' && !isStreaming && !isTyping && handleSendMessage()}
             className="flex-1"
           />
-          <Button 
-            onClick={handleSendMessage} 
-            disabled={!inputMessage.trim() || isTyping || !isBackendConnected}
-            size="sm"
-          >
-            <Send className="h-4 w-4" />
-          </Button>
+          {isStreaming ? (
+            <Button onClick={handleStopResponse} variant="outline" size="sm" title="Stop generating">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button 
+              onClick={handleSendMessage} 
+              disabled={!inputMessage.trim() || isTyping || !isBackendConnected}
+              size="sm"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
     </Card>
@@ -0,0 +1,27 @@
+import { useCallback, useMemo, useRef, type ReactNode } from "react";
+import { CanvasSnapshotContext, type CanvasSnapshotSource } from "@/hooks/use-canvas-snapshot";
+
+// Lets the drawing canvas hand snapshots of the student's work to other panels
+// (e.g. the chat's "Analyze Work") without either knowing about the other
+export const CanvasSnapshotProvider = ({ children }: { children: ReactNode }) => {
+  const sourceRef = useRef<CanvasSnapshotSource | null>(null);
+
+  const registerSource = useCallback((source: CanvasSnapshotSource) => {
+    sourceRef.current = source;
+    return () => {
+      if (sourceRef.current === source) sourceRef.current = null;
+    };
+  }, []);
+
+  const captureSnapshot = useCallback(async () => {
+    return sourceRef.current ? sourceRef.current() : null;
+  }, []);
+
+  const value = useMemo(() => ({ registerSource, captureSnapshot }), [registerSource, captureSnapshot]);
+
+  return (
+    <CanvasSnapshotContext.Provider value={value}>
+      {children}
+    </CanvasSnapshotContext.Provider>
+  );
+};
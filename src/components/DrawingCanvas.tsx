@@ -1,37 +1,173 @@
-import { useEffect, useRef, useState, useCallback } from "react";
-import { Canvas as FabricCanvas, Line, IText, PencilBrush, Circle, Rect } from "fabric";
-import { Pencil, Square, RotateCcw, Download, Type, Circle as CircleIcon, RectangleHorizontal, Eraser, Minus, Upload, Eye } from "lucide-react";
+import { useEffect, useRef, useState, useCallback, type CSSProperties } from "react";
+import { Canvas as FabricCanvas, FabricImage, Line, IText, Circle, Rect, ActiveSelection, Path, type FabricObject, type Point, type TMat2D, type TPointerEventInfo, type Transform } from "fabric";
+import { Pencil, Square, RotateCcw, Download, Type, Circle as CircleIcon, RectangleHorizontal, Eraser, Scissors, Minus, Upload, Eye, Undo2, Redo2, ZoomIn, ZoomOut, Maximize, Image as ImageIcon, Layers, LassoSelect, Radical, Sigma } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "sonner";
+import { ApiService } from "@/services/api";
 import { canvasAnalysisService } from "@/services/canvasAnalysis";
+import {
+  CanvasHistory,
+  captureTransforms,
+  createAddCommand,
+  createRemoveCommand,
+  createReplaceCommand,
+  createTextEditCommand,
+  createTransformCommand,
+} from "@/services/canvasHistory";
+import {
+  createBackgroundImage,
+  createGridLines,
+  expandBounds,
+  exportContentImage,
+  exportRegionImage,
+  getBackgroundObject,
+  getContentObjects,
+  getObjectBounds,
+  getUndoableObjects,
+  getWorkObjects,
+  isBackgroundObject,
+  isGridLine,
+  isTutorAnnotation,
+  loadCanvasContent,
+  renderThumbnail,
+  serializeCanvasContent,
+  setBackgroundEditable,
+  unionBounds,
+  type SceneBounds,
+} from "@/lib/canvasObjects";
+import { ObjectEraserSession, StrokeEraserSession } from "@/lib/canvasEraser";
+import {
+  applyLayers,
+  findLayer,
+  getObjectLayer,
+  isLayerEditable,
+  normalizeLayers,
+  placeOnLayer,
+  setObjectLayer,
+  type CanvasLayer,
+  type LayerId,
+} from "@/lib/canvasLayers";
+import { LayersPanel } from "@/components/LayersPanel";
+import { acceptAnnotationObject, createAnnotationObject } from "@/lib/tutorAnnotations";
+import { TutorAnnotationsBar, type TutorMark } from "@/components/TutorAnnotationsBar";
+import { createMathObject, getMathSource, isMathObject, toMathSource, updateMathObject, type MathFormat } from "@/lib/mathObjects";
+import { asciiMathToLatex } from "@/lib/asciiMath";
+import { getPathScenePoints, isInsideLasso } from "@/lib/strokeGeometry";
+import { createShapeObject, describeShape, recognizeShape } from "@/lib/shapeRecognition";
+import { MathEditorDialog } from "@/components/MathEditorDialog";
+import { MathInputPopover } from "@/components/MathInputPopover";
+import { useCanvasViewport } from "@/hooks/use-canvas-viewport";
+import { usePenSettings } from "@/hooks/use-pen-settings";
+import { PressureBrush } from "@/lib/pressureBrush";
+import { PenSettingsPopover } from "@/components/PenSettingsPopover";
+import { useCanvasSnapshot } from "@/hooks/use-canvas-snapshot";
+import type { NotebookCanvasData } from "@/services/notebookStorage";
 
 interface DrawingCanvasProps {
   className?: string;
   selectedPersonality?: 'calm' | 'angry' | 'cool' | 'lazy';
+  initialContent?: NotebookCanvasData | null;
+  onContentChange?: (content: NotebookCanvasData) => void;
+  // The exercise image (data URL), shown as a locked background to work over
+  exerciseImage?: string | null;
+  onExerciseUpload?: (imageUrl: string) => void;
+  // A small picture of the page (PNG data URL), redrawn after edits
+  onThumbnailChange?: (thumbnail: string) => void;
+  // Opens the notebook's export options
+  onExport?: () => void;
 }
 
-export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: DrawingCanvasProps) => {
+// Edits settle for this long before the page thumbnail is redrawn
+const THUMBNAIL_DELAY = 600;
+
+// Editor state for changing existing math, in the format it was typed in
+const getMathInputFor = (target: FabricObject) => {
+  const source = getMathSource(target);
+  return {
+    input: source.asciimath ?? source.latex,
+    format: (source.asciimath !== undefined ? 'asciimath' : 'latex') as MathFormat,
+    position: { x: target.left, y: target.top },
+    target,
+  };
+};
+
+export const DrawingCanvas = ({ className, selectedPersonality = 'calm', initialContent, onContentChange, exerciseImage, onExerciseUpload, onThumbnailChange, onExport }: DrawingCanvasProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [fabricCanvas, setFabricCanvas] = useState<FabricCanvas | null>(null);
-  const [activeTool, setActiveTool] = useState<"draw" | "text" | "erase" | "select" | "circle" | "rectangle" | "line">("draw");
+  const [activeTool, setActiveTool] = useState<"draw" | "text" | "erase" | "object-erase" | "select" | "circle" | "rectangle" | "line" | "background" | "lasso" | "math">("draw");
   const [brushSize, setBrushSize] = useState(2);
   const [brushColor, setBrushColor] = useState("#2563eb");
+  const { settings: penSettings, updateSettings: updatePenSettings } = usePenSettings();
+  const smartInkRef = useRef(penSettings.smartInk);
+  smartInkRef.current = penSettings.smartInk;
   const [showGrid, setShowGrid] = useState(true);
   const [isDrawingShape, setIsDrawingShape] = useState(false);
   const [startPoint, setStartPoint] = useState<{x: number, y: number} | null>(null);
   const [currentShape, setCurrentShape] = useState<any>(null);
   const [lastRenderTime, setLastRenderTime] = useState(0);
   const renderTimeoutRef = useRef<number | null>(null);
+  const eraserRef = useRef<{ session: StrokeEraserSession | ObjectEraserSession; lastPoint: Point } | null>(null);
+  // Scene points of the lasso loop being drawn
+  const lassoRef = useRef<Point[] | null>(null);
+  const [lassoSelection, setLassoSelection] = useState<FabricObject[]>([]);
+  // Converting lassoed strokes to math
+  const [mathEditor, setMathEditor] = useState<{
+    latex: string;
+    isLoading: boolean;
+    strokes: FabricObject[];
+    bounds: SceneBounds;
+  } | null>(null);
+  // Typed math being entered at `position` or replacing `target`, previewed on the canvas
+  const [mathInput, setMathInput] = useState<{
+    input: string;
+    format: MathFormat;
+    position: { x: number; y: number };
+    target?: FabricObject;
+  } | null>(null);
+  const mathInputRef = useRef(mathInput);
+  mathInputRef.current = mathInput;
+  const mathPreviewRef = useRef<FabricObject | null>(null);
+  // New math starts in the format last used
+  const mathFormatRef = useRef<MathFormat>('asciimath');
   
   // Live analysis state
   const [isLiveAnalysisEnabled, setIsLiveAnalysisEnabled] = useState(true);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const analysisTimeoutRef = useRef<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Undo/redo history
+  const [history] = useState(() => new CanvasHistory());
+  const [historyState, setHistoryState] = useState(() => history.getState());
+
+  // Notebook persistence
+  const hasLoadedContentRef = useRef(false);
+  const isLoadingContentRef = useRef(false);
+  const [isContentReady, setIsContentReady] = useState(false);
+
+  const [hasBackground, setHasBackground] = useState(false);
+
+  // Layers are view settings: changing them is saved but not part of undo/redo
+  const [layers, setLayers] = useState(() => normalizeLayers(initialContent?.layers));
+  const [activeLayerId, setActiveLayerId] = useState<LayerId>('work');
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+  const activeLayerIdRef = useRef(activeLayerId);
+  activeLayerIdRef.current = activeLayerId;
+
+  // Tutor marks waiting to be accepted or dismissed, and their canvas objects
+  const [tutorMarks, setTutorMarks] = useState<TutorMark[]>([]);
+  const markObjectsRef = useRef(new Map<string, FabricObject>());
+  const onContentChangeRef = useRef(onContentChange);
+  onContentChangeRef.current = onContentChange;
+  const onThumbnailChangeRef = useRef(onThumbnailChange);
+  onThumbnailChangeRef.current = onThumbnailChange;
+
   // Initialize canvas with better precision settings (only once)
   const initializeCanvas = useCallback(() => {
     if (!canvasRef.current || !containerRef.current) return;
@@ -57,6 +193,8 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
       selectionDashArray: [5, 5],
       // Restore high-DPI for crisp rendering
       enableRetinaScaling: true,
+      // Pointer events let pan/zoom gestures be told apart by pointer type
+      enablePointerEvents: true,
     });
 
     // Set high DPI for crisp rendering
@@ -74,8 +212,8 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
     
     canvas.getContext().scale(ratio, ratio);
 
-    // Configure drawing brush for precision
-    const brush = new PencilBrush(canvas);
+    // Configure drawing brush for precision; pen pressure and the stabilizer are set from the pen settings
+    const brush = new PressureBrush(canvas);
     brush.color = brushColor;
     brush.width = brushSize;
     brush.shadow = null;
@@ -93,12 +231,31 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
   useEffect(() => {
     // Set personality for analysis service
     canvasAnalysisService.setPersonality(selectedPersonality);
-    
+  }, [selectedPersonality]);
+
+  // A new canvas starts with a clean transcript
+  useEffect(() => {
+    if (!fabricCanvas) return;
+    canvasAnalysisService.resetCanvasState();
     return () => {
-      // Clean up analysis service on unmount
-      canvasAnalysisService.dispose();
+      // An analysis still waiting out its debounce would read this canvas after it's gone
+      const pendingAnalysis = analysisTimeoutRef.current;
+      if (pendingAnalysis) clearTimeout(pendingAnalysis);
+      canvasAnalysisService.resetCanvasState();
     };
-  }, [selectedPersonality]);
+  }, [fabricCanvas]);
+
+  // Show when the AI is looking at the canvas
+  useEffect(() => {
+    const unsubscribers = [
+      canvasAnalysisService.on('analysis:started', () => setIsAnalyzing(true)),
+      canvasAnalysisService.on('analysis:completed', () => setIsAnalyzing(false)),
+      canvasAnalysisService.on('error', ({ stage }) => {
+        if (stage !== 'commentary') setIsAnalyzing(false);
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
 
   // Trigger analysis when canvas changes
   const triggerCanvasAnalysis = useCallback(() => {
@@ -116,33 +273,230 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
 
     analysisTimeoutRef.current = setTimeout(() => {
       console.log('Starting canvas analysis after debounce');
-      canvasAnalysisService.analyzeCanvas(canvasRef.current!);
+      canvasAnalysisService.analyzeCanvas(fabricCanvas);
     }, 1000); // Wait 1 second after last change - faster for competition
   }, [fabricCanvas, isLiveAnalysisEnabled]);
 
-  // Handle keyboard events for delete functionality
+  // Show the tutor's marks on the tutor layer; a new set replaces the marks still pending
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    return canvasAnalysisService.on('annotations', (annotations) => {
+      markObjectsRef.current.forEach(obj => fabricCanvas.remove(obj));
+      markObjectsRef.current.clear();
+
+      const marks = annotations.map((annotation, i) => {
+        const id = `${Date.now()}-${i}`;
+        const obj = createAnnotationObject(annotation);
+        placeOnLayer(fabricCanvas, layersRef.current, obj, 'tutor');
+        markObjectsRef.current.set(id, obj);
+        return { id, annotation };
+      });
+      setTutorMarks(marks);
+      applyLayers(fabricCanvas, layersRef.current);
+    });
+  }, [fabricCanvas]);
+
+  // The convert action belongs to the lassoed selection only
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    const clearLassoSelection = () => setLassoSelection([]);
+    fabricCanvas.on('selection:cleared', clearLassoSelection);
+    fabricCanvas.on('selection:updated', clearLassoSelection);
+    return () => {
+      fabricCanvas.off('selection:cleared', clearLassoSelection);
+      fabricCanvas.off('selection:updated', clearLassoSelection);
+    };
+  }, [fabricCanvas]);
+
+  // Double-clicking typeset math opens its source again
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    const handleDoubleClick = ({ target }: { target?: FabricObject }) => {
+      if (!target || !isMathObject(target) || !isLayerEditable(layersRef.current, getObjectLayer(target))) return;
+      fabricCanvas.discardActiveObject();
+      setMathInput(getMathInputFor(target));
+    };
+
+    fabricCanvas.on('mouse:dblclick', handleDoubleClick);
+    return () => {
+      fabricCanvas.off('mouse:dblclick', handleDoubleClick);
+    };
+  }, [fabricCanvas]);
+
+  // Keep toolbar buttons in sync with the history stack
+  useEffect(() => history.subscribe(setHistoryState), [history]);
+
+  // Restore the saved notebook content once the canvas exists
+  useEffect(() => {
+    if (!fabricCanvas || hasLoadedContentRef.current) return;
+    hasLoadedContentRef.current = true;
+    if (!initialContent) {
+      setIsContentReady(true);
+      return;
+    }
+
+    isLoadingContentRef.current = true;
+    loadCanvasContent(fabricCanvas, initialContent)
+      .then(() => applyLayers(fabricCanvas, layersRef.current))
+      .catch(error => {
+        console.error('Failed to restore canvas:', error);
+        toast("Couldn't restore this notebook's drawing");
+      })
+      .finally(() => {
+        isLoadingContentRef.current = false;
+        setIsContentReady(true);
+      });
+  }, [fabricCanvas, initialContent]);
+
+  // Keep the background controls in sync with the canvas (uploads, undo/redo, restored notebooks)
+  const syncBackgroundState = useCallback(() => {
+    const background = fabricCanvas ? getBackgroundObject(fabricCanvas) : undefined;
+    setHasBackground(!!background);
+    if (!background) {
+      setActiveTool(tool => tool === "background" ? "draw" : tool);
+    }
+  }, [fabricCanvas]);
+
+  useEffect(() => {
+    if (isContentReady) syncBackgroundState();
+    return history.subscribe(syncBackgroundState);
+  }, [history, isContentReady, syncBackgroundState]);
+
+  // Place the exercise image on the background layer, replacing any previous one. The image
+  // follows the exercise, so this isn't an undo step: undo would leave the two out of step.
+  useEffect(() => {
+    if (!fabricCanvas || !isContentReady) return;
+
+    const current = getBackgroundObject(fabricCanvas);
+    const currentSrc = current instanceof FabricImage ? current.getSrc() : null;
+    if ((exerciseImage ?? null) === currentSrc) return;
+
+    let cancelled = false;
+    const placeBackground = async () => {
+      try {
+        const image = exerciseImage ? await createBackgroundImage(fabricCanvas, exerciseImage) : null;
+        if (cancelled) return;
+
+        if (current) fabricCanvas.remove(current);
+        if (image) placeOnLayer(fabricCanvas, layersRef.current, image, 'background');
+        history.notifyChange();
+        fabricCanvas.requestRenderAll();
+      } catch (error) {
+        console.error('Failed to place exercise image:', error);
+        toast.error("Couldn't put the exercise on the canvas");
+      }
+    };
+
+    placeBackground();
+    return () => {
+      cancelled = true;
+    };
+  }, [fabricCanvas, isContentReady, exerciseImage, history]);
+
+  // Every recorded edit (and every undo/redo) is a change worth saving. Restored
+  // objects come back with their old look, so the layer settings are applied again.
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    return history.subscribe(() => {
+      applyLayers(fabricCanvas, layersRef.current);
+      onContentChangeRef.current?.(serializeCanvasContent(fabricCanvas, layersRef.current));
+    });
+  }, [fabricCanvas, history]);
+
+  // Redraw the page thumbnail once the page has loaded and whenever a burst of edits settles
+  useEffect(() => {
+    if (!fabricCanvas || !isContentReady) return;
+
+    let timeout: number | null = null;
+    const updateThumbnail = () => {
+      timeout = null;
+      onThumbnailChangeRef.current?.(renderThumbnail(fabricCanvas));
+    };
+    const scheduleThumbnail = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = window.setTimeout(updateThumbnail, THUMBNAIL_DELAY);
+    };
+
+    scheduleThumbnail();
+    const unsubscribe = history.subscribe(scheduleThumbnail);
+    return () => {
+      unsubscribe();
+      // Leaving the page (the canvas is disposed after this) shouldn't lose the latest edits
+      if (timeout) {
+        clearTimeout(timeout);
+        updateThumbnail();
+      }
+    };
+  }, [fabricCanvas, isContentReady, history]);
+
+  const handleLayersChange = useCallback((next: CanvasLayer[]) => {
+    setLayers(next);
+    if (!isLayerEditable(next, 'background')) {
+      setActiveTool(tool => tool === "background" ? "select" : tool);
+    }
+    if (!fabricCanvas) return;
+    applyLayers(fabricCanvas, next);
+    onContentChangeRef.current?.(serializeCanvasContent(fabricCanvas, next));
+  }, [fabricCanvas]);
+
+  const handleUndo = useCallback(() => {
+    // Replayed steps don't trigger analysis themselves; one debounced pass covers a burst of undos
+    if (history.undo()) {
+      triggerCanvasAnalysis();
+    }
+  }, [history, triggerCanvasAnalysis]);
+
+  const handleRedo = useCallback(() => {
+    if (history.redo()) {
+      triggerCanvasAnalysis();
+    }
+  }, [history, triggerCanvasAnalysis]);
+
+  // Handle keyboard events for delete and undo/redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!fabricCanvas) return;
+
+      // Leave shortcuts alone while typing in the chat or another field
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const activeObject = fabricCanvas.getActiveObject();
+      const isEditingText = activeObject instanceof IText && activeObject.isEditing;
+
+      if ((e.ctrlKey || e.metaKey) && !isEditingText) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          handleUndo();
+          return;
+        }
+        if ((key === 'z' && e.shiftKey) || key === 'y') {
+          e.preventDefault();
+          handleRedo();
+          return;
+        }
+      }
       
       if (e.key === 'Delete' || e.key === 'Backspace') {
-        const activeObject = fabricCanvas.getActiveObject();
-        
         // Check if user is actively editing text - if so, don't interfere
-        if (activeObject && activeObject.type === 'i-text' && (activeObject as any).isEditing) {
+        if (isEditingText) {
           return; // Let the text editor handle the key press
         }
         
-        const activeObjects = fabricCanvas.getActiveObjects();
+        // Delete all selected objects (except grid lines, the exercise background and locked layers)
+        const activeObjects = fabricCanvas.getActiveObjects()
+          .filter(obj => !isGridLine(obj) && !isBackgroundObject(obj) && isLayerEditable(layers, getObjectLayer(obj)));
         
         if (activeObjects.length > 0) {
-          // Delete all selected objects (except grid lines)
-          activeObjects.forEach(obj => {
-            if ((obj as any).name !== 'grid-line') {
-              fabricCanvas.remove(obj);
-            }
-          });
           fabricCanvas.discardActiveObject();
+          history.execute(createRemoveCommand(fabricCanvas, activeObjects, 'Delete'));
           fabricCanvas.renderAll();
           toast("Selected objects deleted!");
         }
@@ -153,49 +507,47 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
     return () => {
       document.removeEventListener('keydown', handleKeyDown);
     };
-  }, [fabricCanvas]);
+  }, [fabricCanvas, history, handleUndo, handleRedo, layers]);
 
-  // Add grid function (separate from initialization)
+  // Draw the grid for the visible part of the (infinite) canvas only
   const addGrid = useCallback(() => {
-    if (!fabricCanvas || !showGrid) return;
+    if (!fabricCanvas) return;
     
     // Remove existing grid lines first
-    const existingGridLines = fabricCanvas.getObjects().filter(obj => (obj as any).name === 'grid-line');
+    const existingGridLines = fabricCanvas.getObjects().filter(isGridLine);
     existingGridLines.forEach(line => fabricCanvas.remove(line));
     
-    const gridSize = 20;
-    const canvasWidth = fabricCanvas.width || 800;
-    const canvasHeight = fabricCanvas.height || 600;
-    
-    // Create vertical lines
-    for (let i = 0; i <= canvasWidth; i += gridSize) {
-      const line = new Line([i, 0, i, canvasHeight], {
-        stroke: "#f3f4f6",
-        strokeWidth: 0.5,
-        selectable: false,
-        evented: false,
-        excludeFromExport: true,
-        name: 'grid-line'
-      });
-      fabricCanvas.add(line);
+    if (showGrid) {
+      const { tl, br } = fabricCanvas.calcViewportBoundaries();
+      const gridLines = createGridLines(
+        { left: tl.x, top: tl.y, right: br.x, bottom: br.y },
+        fabricCanvas.getZoom()
+      );
+      // Keep the grid underneath the student's work
+      fabricCanvas.insertAt(0, ...gridLines);
     }
     
-    // Create horizontal lines
-    for (let i = 0; i <= canvasHeight; i += gridSize) {
-      const line = new Line([0, i, canvasWidth, i], {
-        stroke: "#f3f4f6",
-        strokeWidth: 0.5,
-        selectable: false,
-        evented: false,
-        excludeFromExport: true,
-        name: 'grid-line'
-      });
-      fabricCanvas.add(line);
-    }
-    
-    fabricCanvas.renderAll();
+    fabricCanvas.requestRenderAll();
   }, [fabricCanvas, showGrid]);
 
+  const { zoom, zoomIn, zoomOut, resetView, zoomToFit } = useCanvasViewport(fabricCanvas, addGrid, penSettings.penOnly);
+  const { registerSource } = useCanvasSnapshot();
+
+  // Let "Analyze Work" see the student's actual work
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    return registerSource(async () => {
+      const image = await exportContentImage(fabricCanvas);
+      if (!image) return null;
+      return {
+        image,
+        extractedText: canvasAnalysisService.getTranscript() || undefined,
+        regions: canvasAnalysisService.getAnchors(),
+      };
+    });
+  }, [fabricCanvas, registerSource]);
+
   // Initialize canvas only once
   useEffect(() => {
     const canvas = initializeCanvas();
@@ -231,6 +583,122 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
     }
   }, [fabricCanvas, addGrid]);
 
+  // A resized canvas shows more (or less) of the scene
+  useEffect(() => {
+    window.addEventListener('resize', addGrid);
+    return () => {
+      window.removeEventListener('resize', addGrid);
+    };
+  }, [addGrid]);
+
+  // Typed math is sized like text, with a floor so fractions and exponents stay legible
+  const mathFontSize = Math.max(24, brushSize);
+
+  // Take the live preview of typed math off the canvas
+  const clearMathPreview = useCallback(() => {
+    const preview = mathPreviewRef.current;
+    if (preview) fabricCanvas?.remove(preview);
+    mathPreviewRef.current = null;
+  }, [fabricCanvas]);
+
+  // Swap objects for math at their place in the stack, as one undo step
+  const replaceWithMath = useCallback((replaced: FabricObject[], math: FabricObject, label: string) => {
+    if (!fabricCanvas) return;
+
+    const content = getUndoableObjects(fabricCanvas);
+    const removed = replaced.map(obj => ({ obj, index: content.indexOf(obj) }));
+    const index = fabricCanvas.getObjects().indexOf(replaced[replaced.length - 1]);
+    fabricCanvas.insertAt(index + 1, math);
+    replaced.forEach(obj => fabricCanvas.remove(obj));
+    history.push(createReplaceCommand(fabricCanvas, removed, [math], label));
+  }, [fabricCanvas, history]);
+
+  // Render typed math on the canvas as it's typed. The preview is neither saved nor analysed,
+  // and math being edited is hidden behind it until the edit is placed or cancelled.
+  useEffect(() => {
+    if (!fabricCanvas || !mathInput) return;
+
+    let isCurrent = true;
+    const timeout = window.setTimeout(async () => {
+      const { input, format, position, target } = mathInput;
+      const source = toMathSource(input.trim(), format, target ? getMathSource(target).color : brushColor);
+      try {
+        const preview = !source.latex
+          ? null
+          : target ? await updateMathObject(target, source) : await createMathObject(source, mathFontSize);
+        if (!isCurrent) return;
+
+        clearMathPreview();
+        if (preview) {
+          if (!target) preview.set({ left: position.x, top: position.y });
+          preview.set({ selectable: false, evented: false, excludeFromExport: true });
+          mathPreviewRef.current = preview;
+          fabricCanvas.add(preview);
+        }
+        if (target) target.visible = !preview;
+        fabricCanvas.requestRenderAll();
+      } catch (error) {
+        console.error('Failed to preview math:', error);
+      }
+    }, 150);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeout);
+    };
+  }, [fabricCanvas, mathInput, brushColor, mathFontSize, clearMathPreview]);
+
+  // Place the typed math, or the edit to it, as one undo step
+  const commitMathInput = useCallback(async () => {
+    const draft = mathInputRef.current;
+    mathInputRef.current = null;
+    setMathInput(null);
+    clearMathPreview();
+    if (!fabricCanvas || !draft) return;
+
+    const { input, format, position, target } = draft;
+    if (target) target.visible = true;
+    fabricCanvas.requestRenderAll();
+    const trimmed = input.trim();
+    if (!trimmed) return;
+
+    try {
+      if (target) {
+        const source = toMathSource(trimmed, format, getMathSource(target).color);
+        const unchanged = JSON.stringify(source) === JSON.stringify(getMathSource(target));
+        if (unchanged || !fabricCanvas.getObjects().includes(target)) return;
+        replaceWithMath([target], await updateMathObject(target, source), 'Edit math');
+      } else {
+        const math = await createMathObject(toMathSource(trimmed, format, brushColor), mathFontSize);
+        math.set({ left: position.x, top: position.y });
+        placeOnLayer(fabricCanvas, layers, math, activeLayerId);
+        history.push(createAddCommand(fabricCanvas, [math], 'Add math'));
+      }
+    } catch (error) {
+      console.error('Failed to place math:', error);
+      toast.error("Couldn't typeset that math");
+    }
+  }, [fabricCanvas, history, brushColor, mathFontSize, layers, activeLayerId, clearMathPreview, replaceWithMath]);
+
+  const cancelMathInput = () => {
+    const draft = mathInputRef.current;
+    mathInputRef.current = null;
+    setMathInput(null);
+    clearMathPreview();
+    if (draft?.target) draft.target.visible = true;
+    fabricCanvas?.requestRenderAll();
+  };
+
+  // Switching to LaTeX carries typed ASCII math over; the other way round it's kept as is
+  const handleMathFormatChange = (format: MathFormat) => {
+    mathFormatRef.current = format;
+    setMathInput(current => current && {
+      ...current,
+      format,
+      input: format === 'latex' && current.format === 'asciimath' ? asciiMathToLatex(current.input) : current.input,
+    });
+  };
+
   // Setup event listeners for tools (separate from initialization)
   useEffect(() => {
     if (!fabricCanvas) return;
@@ -240,16 +708,55 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
     fabricCanvas.off('mouse:move');
     fabricCanvas.off('mouse:up');
 
+    // Locked and hidden layers are out of the erasers' reach
+    const canErase = (obj: FabricObject) => isLayerEditable(layers, getObjectLayer(obj));
+
+    // The lasso loop is drawn on the top layer of the canvas, outside the scene
+    const drawLasso = (points: Point[]) => {
+      const ctx = fabricCanvas.contextTop;
+      const vpt = fabricCanvas.viewportTransform;
+      const zoom = fabricCanvas.getZoom();
+      fabricCanvas.clearContext(ctx);
+      ctx.save();
+      ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5]);
+      ctx.beginPath();
+      points.forEach((point, i) => i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+      ctx.setLineDash([6 / zoom, 4 / zoom]);
+      ctx.lineWidth = 1.5 / zoom;
+      ctx.strokeStyle = '#2563eb';
+      ctx.fillStyle = 'rgba(37, 99, 235, 0.08)';
+      ctx.fill();
+      ctx.stroke();
+      ctx.restore();
+    };
+
     // Add event listeners for better interaction
-    const handleMouseDown = (options: any) => {
-      const pointer = fabricCanvas.getPointer(options.e);
+    // Pointer positions are taken in scene coordinates so tools work at any pan/zoom
+    const handleMouseDown = (options: TPointerEventInfo) => {
+      const pointer = options.scenePoint;
       
       // Check if we're clicking on an existing object
       const target = fabricCanvas.findTarget(options.e);
+
+      // Clicking away from typed math places it
+      if (mathInputRef.current) {
+        commitMathInput();
+        if (activeTool === 'math') return;
+      }
+
+      const isCreatingTool = activeTool === 'draw' || activeTool === 'text' || activeTool === 'circle' || activeTool === 'rectangle' || activeTool === 'line' || activeTool === 'math';
+      if (isCreatingTool && !isLayerEditable(layers, activeLayerId)) {
+        if (!target || isGridLine(target)) {
+          const layer = findLayer(layers, activeLayerId);
+          toast(`The ${layer.name} layer is ${layer.visible ? 'locked' : 'hidden'}`);
+        }
+        return;
+      }
       
       if (activeTool === 'text') {
         // Only create text if not clicking on an existing object
-        if (!target || (target as any).name === 'grid-line') {
+        if (!target || isGridLine(target)) {
           const text = new IText('Type here...', {
             left: pointer.x,
             top: pointer.y,
@@ -258,14 +765,22 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
             fill: brushColor,
             editable: true,
           });
-          fabricCanvas.add(text);
+          placeOnLayer(fabricCanvas, layers, text, activeLayerId);
+          history.push(createAddCommand(fabricCanvas, [text], 'Add text'));
           fabricCanvas.setActiveObject(text);
           text.enterEditing();
           fabricCanvas.renderAll();
         }
+      } else if (activeTool === 'math') {
+        if (target && isMathObject(target)) {
+          fabricCanvas.discardActiveObject();
+          setMathInput(getMathInputFor(target));
+        } else if (!target || isGridLine(target)) {
+          setMathInput({ input: '', format: mathFormatRef.current, position: pointer });
+        }
       } else if (activeTool === 'circle') {
         // Only create new circle if not clicking on an existing object
-        if (!target || (target as any).name === 'grid-line') {
+        if (!target || isGridLine(target)) {
           // Disable selection temporarily during creation
           fabricCanvas.selection = false;
           fabricCanvas.discardActiveObject();
@@ -286,7 +801,7 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
             hasBorders: false,
           });
           
-          fabricCanvas.add(circle);
+          placeOnLayer(fabricCanvas, layers, circle, activeLayerId);
           setCurrentShape(circle);
           // Defer rendering for better performance
           requestAnimationFrame(() => {
@@ -295,7 +810,7 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
         }
       } else if (activeTool === 'rectangle') {
         // Only create new rectangle if not clicking on an existing object
-        if (!target || (target as any).name === 'grid-line') {
+        if (!target || isGridLine(target)) {
           // Disable selection temporarily during creation
           fabricCanvas.selection = false;
           fabricCanvas.discardActiveObject();
@@ -317,7 +832,7 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
             hasBorders: false,
           });
           
-          fabricCanvas.add(rect);
+          placeOnLayer(fabricCanvas, layers, rect, activeLayerId);
           setCurrentShape(rect);
           // Defer rendering for better performance
           requestAnimationFrame(() => {
@@ -326,7 +841,7 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
         }
       } else if (activeTool === 'line') {
         // Only create new line if not clicking on an existing object
-        if (!target || (target as any).name === 'grid-line') {
+        if (!target || isGridLine(target)) {
           // Disable selection temporarily during creation
           fabricCanvas.selection = false;
           fabricCanvas.discardActiveObject();
@@ -344,7 +859,7 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
             hasBorders: false,
           });
           
-          fabricCanvas.add(line);
+          placeOnLayer(fabricCanvas, layers, line, activeLayerId);
           setCurrentShape(line);
           // Defer rendering for better performance
           requestAnimationFrame(() => {
@@ -352,35 +867,45 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
           });
         }
       } else if (activeTool === 'erase') {
-        // Handle eraser functionality
-        const pointer = fabricCanvas.getPointer(options.e);
-        const objects = fabricCanvas.getObjects();
-        
-        // Find objects to erase (excluding grid lines)
-        const objectsToRemove = objects.filter(obj => {
-          if ((obj as any).name === 'grid-line') return false;
-          
-          // Check if pointer is within object bounds
-          const objBounds = obj.getBoundingRect();
-          return pointer.x >= objBounds.left && 
-                 pointer.x <= objBounds.left + objBounds.width &&
-                 pointer.y >= objBounds.top && 
-                 pointer.y <= objBounds.top + objBounds.height;
-        });
-        
-        // Remove found objects
-        objectsToRemove.forEach(obj => fabricCanvas.remove(obj));
-        if (objectsToRemove.length > 0) {
-          // Defer rendering for better performance
-          requestAnimationFrame(() => {
-            fabricCanvas.renderAll();
-          });
-          toast("Objects erased!");
-        }
+        // The brush size is the eraser radius; only the strokes under it are cut away
+        const session = new StrokeEraserSession(fabricCanvas, brushSize, canErase);
+        session.eraseSegment(pointer, pointer);
+        eraserRef.current = { session, lastPoint: pointer };
+      } else if (activeTool === 'object-erase') {
+        const session = new ObjectEraserSession(fabricCanvas, Math.max(brushSize, 3), canErase);
+        session.eraseAt(pointer);
+        eraserRef.current = { session, lastPoint: pointer };
+      } else if (activeTool === 'lasso') {
+        fabricCanvas.discardActiveObject();
+        setLassoSelection([]);
+        lassoRef.current = [pointer];
       }
     };
 
-    const handleMouseMove = (options: any) => {
+    const handleMouseMove = (options: TPointerEventInfo) => {
+      const eraser = eraserRef.current;
+      if (eraser) {
+        const pointer = options.scenePoint;
+        if (eraser.session instanceof StrokeEraserSession) {
+          eraser.session.eraseSegment(eraser.lastPoint, pointer);
+        } else {
+          eraser.session.eraseAt(pointer);
+        }
+        eraser.lastPoint = pointer;
+        return;
+      }
+
+      const lasso = lassoRef.current;
+      if (lasso) {
+        const pointer = options.scenePoint;
+        const last = lasso[lasso.length - 1];
+        if (Math.hypot(pointer.x - last.x, pointer.y - last.y) * fabricCanvas.getZoom() >= 3) {
+          lasso.push(pointer);
+          drawLasso(lasso);
+        }
+        return;
+      }
+
       if (!isDrawingShape || !startPoint || !currentShape) return;
       
       // More aggressive throttling for better performance (33ms = ~30fps)
@@ -388,7 +913,7 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
       if (now - lastRenderTime < 33) return;
       setLastRenderTime(now);
       
-      const pointer = fabricCanvas.getPointer(options.e);
+      const pointer = options.scenePoint;
       
       if (activeTool === 'circle') {
         // Calculate radius based on distance from start point
@@ -433,6 +958,30 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
     };
 
     const handleMouseUp = () => {
+      if (eraserRef.current) {
+        // The whole drag is one undo step
+        const command = eraserRef.current.session.finish();
+        eraserRef.current = null;
+        if (command) history.push(command);
+        return;
+      }
+
+      if (lassoRef.current) {
+        // Select the student's own strokes and objects inside the loop, on layers they can edit
+        const polygon = lassoRef.current;
+        lassoRef.current = null;
+        fabricCanvas.clearContext(fabricCanvas.contextTop);
+
+        const lassoed = getWorkObjects(fabricCanvas)
+          .filter(obj => obj.visible && isLayerEditable(layers, getObjectLayer(obj)) && isInsideLasso(obj, polygon));
+        if (lassoed.length > 0) {
+          fabricCanvas.setActiveObject(new ActiveSelection(lassoed, { canvas: fabricCanvas }));
+        }
+        setLassoSelection(lassoed);
+        fabricCanvas.requestRenderAll();
+        return;
+      }
+
       if (isDrawingShape && currentShape) {
         // Enable selection and resizing after creation (using default selection styling)
         currentShape.set({
@@ -445,6 +994,8 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
         // Re-enable canvas selection
         fabricCanvas.selection = true;
         
+        history.push(createAddCommand(fabricCanvas, [currentShape], `Add ${activeTool}`));
+        
         // Auto-select the newly created shape for immediate editing
         fabricCanvas.setActiveObject(currentShape);
         
@@ -465,7 +1016,10 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
     fabricCanvas.on('mouse:up', handleMouseUp);
     
     // Add canvas change listeners for live analysis
-    const handleCanvasChange = () => {
+    const handleCanvasChange = (e: { target?: FabricObject; path?: FabricObject }) => {
+      // Undo/redo steps, restored notebooks, grid redraws and tutor marks are not new work
+      if (history.isApplying || isLoadingContentRef.current) return;
+      if (e.target && (isGridLine(e.target) || isTutorAnnotation(e.target) || e.target === mathPreviewRef.current)) return;
       triggerCanvasAnalysis();
     };
 
@@ -485,14 +1039,98 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
       fabricCanvas.off('object:modified', handleCanvasChange);
       fabricCanvas.off('text:changed', handleCanvasChange);
     };
-  }, [fabricCanvas, activeTool, brushColor, brushSize, isDrawingShape, startPoint, currentShape]);
+  }, [fabricCanvas, activeTool, brushColor, brushSize, isDrawingShape, startPoint, currentShape, history, triggerCanvasAnalysis, layers, activeLayerId, commitMathInput]);
+
+  // Record transforms, freehand strokes and text edits for undo/redo
+  useEffect(() => {
+    if (!fabricCanvas) return;
+
+    let pendingTransform: Map<FabricObject, TMat2D> | null = null;
+    const textBeforeEdit = new WeakMap<IText, string>();
+
+    const getTransformedObjects = (target: FabricObject) => {
+      return target instanceof ActiveSelection ? target.getObjects() : [target];
+    };
+
+    // Put one object in another's place in the stack, as one undo step
+    const swapObject = (from: FabricObject, to: FabricObject, label: string) => {
+      const removed = [{ obj: from, index: getUndoableObjects(fabricCanvas).indexOf(from) }];
+      fabricCanvas.insertAt(fabricCanvas.getObjects().indexOf(from), to);
+      fabricCanvas.remove(from);
+      history.push(createReplaceCommand(fabricCanvas, removed, [to], label));
+    };
+
+    // Smart ink: a stroke that looks like a shape becomes the clean shape. The snap is its own
+    // step, so undo or the toast's action brings back the stroke as drawn.
+    const snapToShape = (path: Path) => {
+      const shape = recognizeShape(getPathScenePoints(path));
+      if (!shape) return;
+
+      const snapped = createShapeObject(shape, path);
+      swapObject(path, snapped, 'Snap to shape');
+
+      const name = describeShape(shape);
+      toast(`Snapped to ${/^[aeiou]/.test(name) ? 'an' : 'a'} ${name}`, {
+        action: {
+          label: 'Keep stroke',
+          onClick: () => {
+            if (fabricCanvas.getObjects().includes(snapped)) swapObject(snapped, path, 'Keep stroke');
+          },
+        },
+      });
+    };
+
+    const handlePathCreated = ({ path }: { path: FabricObject }) => {
+      placeOnLayer(fabricCanvas, layersRef.current, path, activeLayerIdRef.current);
+      history.push(createAddCommand(fabricCanvas, [path], 'Draw'));
+      if (smartInkRef.current && path instanceof Path) snapToShape(path);
+    };
+
+    const handleBeforeTransform = ({ transform }: { transform: Transform }) => {
+      pendingTransform = captureTransforms(getTransformedObjects(transform.target));
+    };
+
+    const handleObjectModified = ({ target }: { target: FabricObject }) => {
+      if (!pendingTransform || !target) return;
+
+      const after = captureTransforms(getTransformedObjects(target));
+      history.push(createTransformCommand(fabricCanvas, pendingTransform, after, 'Transform'));
+      pendingTransform = null;
+    };
+
+    const handleTextEditingEntered = ({ target }: { target: IText }) => {
+      textBeforeEdit.set(target, target.text);
+    };
+
+    const handleTextEditingExited = ({ target }: { target: IText }) => {
+      const before = textBeforeEdit.get(target);
+      if (before !== undefined && before !== target.text) {
+        history.push(createTextEditCommand(fabricCanvas, target, before, target.text));
+      }
+      textBeforeEdit.delete(target);
+    };
+
+    fabricCanvas.on('path:created', handlePathCreated);
+    fabricCanvas.on('before:transform', handleBeforeTransform);
+    fabricCanvas.on('object:modified', handleObjectModified);
+    fabricCanvas.on('text:editing:entered', handleTextEditingEntered);
+    fabricCanvas.on('text:editing:exited', handleTextEditingExited);
+
+    return () => {
+      fabricCanvas.off('path:created', handlePathCreated);
+      fabricCanvas.off('before:transform', handleBeforeTransform);
+      fabricCanvas.off('object:modified', handleObjectModified);
+      fabricCanvas.off('text:editing:entered', handleTextEditingEntered);
+      fabricCanvas.off('text:editing:exited', handleTextEditingExited);
+    };
+  }, [fabricCanvas, history]);
 
   // Update canvas settings when tool/color/size changes
   useEffect(() => {
     if (!fabricCanvas) return;
 
     // Set drawing mode and selection based on active tool
-    fabricCanvas.isDrawingMode = activeTool === "draw";
+    fabricCanvas.isDrawingMode = activeTool === "draw" && isLayerEditable(layers, activeLayerId);
     
     // Only enable selection when not actively drawing shapes
     if (!isDrawingShape) {
@@ -505,9 +1143,28 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
       fabricCanvas.freeDrawingBrush.width = brushSize;
     }
     
-    // Handle eraser mode with custom logic to avoid erasing grid
-    if (activeTool === "erase") {
-      fabricCanvas.isDrawingMode = false; // Disable free drawing mode for eraser
+    // Erasers and the lasso hit-test strokes themselves, so Fabric shouldn't pick up (and drag) objects
+    const isEraser = activeTool === "erase" || activeTool === "object-erase";
+    fabricCanvas.skipTargetFind = isEraser || activeTool === "lasso";
+    fabricCanvas.defaultCursor = isEraser || activeTool === "lasso" ? 'crosshair' : activeTool === "math" ? 'text' : 'default';
+
+    // Only the background can be grabbed while editing it; it is locked otherwise
+    const isEditingBackground = activeTool === "background" && isLayerEditable(layers, 'background');
+    getContentObjects(fabricCanvas).forEach(obj => {
+      if (isTutorAnnotation(obj)) {
+        // Only looked at: accepted or dismissed from the list
+        return;
+      } else if (isBackgroundObject(obj)) {
+        setBackgroundEditable(obj, isEditingBackground);
+      } else if (isEditingBackground) {
+        obj.set({ evented: false });
+      } else if (!isDrawingShape) {
+        // Undo anything a locked layer switched off; locks are applied again below
+        obj.set({ evented: true, selectable: true });
+      }
+    });
+    if (!isEditingBackground && fabricCanvas.getActiveObject() && isBackgroundObject(fabricCanvas.getActiveObject()!)) {
+      fabricCanvas.discardActiveObject();
     }
     
     // Configure object controls based on active tool
@@ -522,7 +1179,7 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
           });
         }
       });
-    } else if (activeTool === "draw" || activeTool === "erase") {
+    } else if (activeTool === "draw" || isEraser) {
       // Disable selection for drawing tools to prevent accidental selection
       fabricCanvas.discardActiveObject();
       fabricCanvas.getObjects().forEach(obj => {
@@ -536,74 +1193,139 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
       });
     }
     
-    fabricCanvas.renderAll();
-  }, [activeTool, brushColor, brushSize, fabricCanvas, isDrawingShape]);
+    applyLayers(fabricCanvas, layers);
+  }, [activeTool, brushColor, brushSize, fabricCanvas, isDrawingShape, layers, activeLayerId]);
+
+  // Pen settings apply from the next stroke
+  useEffect(() => {
+    const brush = fabricCanvas?.freeDrawingBrush;
+    if (!(brush instanceof PressureBrush)) return;
+    brush.pressureEnabled = penSettings.pressure;
+    brush.stabilizer = penSettings.stabilizer;
+  }, [fabricCanvas, penSettings.pressure, penSettings.stabilizer]);
 
   const handleClearCanvas = () => {
     if (!fabricCanvas) return;
     
-    // Clear all objects except grid lines
-    const objects = fabricCanvas.getObjects();
-    const nonGridObjects = objects.filter(obj => (obj as any).name !== 'grid-line');
+    // Clear the student's work; the grid, the exercise background and locked or hidden layers stay
+    cancelMathInput();
+    const nonGridObjects = getWorkObjects(fabricCanvas).filter(obj => isLayerEditable(layers, getObjectLayer(obj)));
     
-    nonGridObjects.forEach(obj => fabricCanvas.remove(obj));
+    if (nonGridObjects.length > 0) {
+      history.execute(createRemoveCommand(fabricCanvas, nonGridObjects, 'Clear canvas'));
+    }
+    dismissAllMarks();
     fabricCanvas.backgroundColor = "#ffffff";
     fabricCanvas.renderAll();
     toast("Canvas cleared!");
   };
   
-  const toggleGrid = () => {
-    setShowGrid(!showGrid);
+  const dismissMark = (id: string) => {
+    const obj = markObjectsRef.current.get(id);
+    if (obj) fabricCanvas?.remove(obj);
+    markObjectsRef.current.delete(id);
+    setTutorMarks(marks => marks.filter(mark => mark.id !== id));
+    fabricCanvas?.requestRenderAll();
   };
 
-  const handleDownload = () => {
-    if (!fabricCanvas) return;
-    
-    const dataURL = fabricCanvas.toDataURL({
-      multiplier: 1,
-      format: 'png',
-      quality: 1,
-    });
-    
-    const link = document.createElement('a');
-    link.download = 'my-drawing.png';
-    link.href = dataURL;
-    link.click();
-    toast("Drawing downloaded!");
+  const dismissAllMarks = () => {
+    markObjectsRef.current.forEach(obj => fabricCanvas?.remove(obj));
+    markObjectsRef.current.clear();
+    setTutorMarks([]);
+    fabricCanvas?.requestRenderAll();
   };
 
-  // Handle image upload
-  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // An accepted mark becomes the student's own annotation, which can be undone like any other
+  const acceptMark = (id: string) => {
+    const obj = markObjectsRef.current.get(id);
+    if (!fabricCanvas || !obj) return;
+
+    markObjectsRef.current.delete(id);
+    setTutorMarks(marks => marks.filter(mark => mark.id !== id));
+    acceptAnnotationObject(obj);
+    placeOnLayer(fabricCanvas, layers, obj, 'annotations');
+    history.push(createAddCommand(fabricCanvas, [obj], 'Accept tutor mark'));
+  };
+
+  // Read the lassoed strokes as LaTeX and show it for checking before anything changes
+  const handleConvertToMath = async () => {
+    if (!fabricCanvas || lassoSelection.length === 0) return;
+
+    const strokes = lassoSelection;
+    const bounds = strokes.map(getObjectBounds).reduce<SceneBounds | null>(unionBounds, null)!;
+    fabricCanvas.discardActiveObject();
+    setMathEditor({ latex: '', isLoading: true, strokes, bounds });
+
+    try {
+      const image = await exportRegionImage(fabricCanvas, expandBounds(bounds, 12), { includeBackground: false, only: strokes });
+      const latex = image ? await ApiService.recognizeLatex(image) : '';
+      setMathEditor(current => current?.strokes === strokes ? { ...current, latex, isLoading: false } : current);
+      if (!latex) toast("No math found there. You can type the LaTeX instead.");
+    } catch (error) {
+      console.error('Failed to convert to math:', error);
+      toast.error("Couldn't read that as math");
+      setMathEditor(current => current?.strokes === strokes ? { ...current, isLoading: false } : current);
+    }
+  };
+
+  // Swap the strokes for the typeset LaTeX, as one undo step
+  const handleMathConfirm = async (latex: string) => {
+    const editor = mathEditor;
+    setMathEditor(null);
+    if (!fabricCanvas || !editor) return;
+
+    try {
+      const { strokes, bounds } = editor;
+      if (strokes.some(obj => !fabricCanvas.getObjects().includes(obj))) return;
+
+      // Keep the ink color and roughly the handwriting's height
+      const ink = strokes.find(obj => typeof obj.stroke === 'string')?.stroke;
+      const math = await createMathObject({ latex, color: typeof ink === 'string' ? ink : brushColor });
+      const scale = Math.min(3, Math.max(0.3, (bounds.bottom - bounds.top) / (math.height || 1)));
+      math.set({ left: bounds.left, top: bounds.top, scaleX: scale, scaleY: scale });
+      setObjectLayer(math, getObjectLayer(strokes[0]));
+      replaceWithMath(strokes, math, 'Convert to math');
+    } catch (error) {
+      console.error('Failed to place math:', error);
+      toast.error("Couldn't typeset that LaTeX");
+    }
+  };
+
+  // Keep the math popover just above where the math goes, or below it near the top edge
+  const getMathInputStyle = (): CSSProperties => {
+    if (!fabricCanvas || !mathInput) return {};
+
+    const vpt = fabricCanvas.viewportTransform;
+    const { left, top, bottom } = mathInput.target
+      ? getObjectBounds(mathInput.target)
+      : { left: mathInput.position.x, top: mathInput.position.y, bottom: mathInput.position.y + mathFontSize * 1.5 };
+    const x = Math.min(Math.max(8, left * vpt[0] + vpt[4]), Math.max(8, fabricCanvas.getWidth() - 328));
+    const above = top * vpt[3] + vpt[5] - 8;
+    return above > 120
+      ? { left: x, top: above, transform: 'translateY(-100%)' }
+      : { left: x, top: bottom * vpt[3] + vpt[5] + 8 };
+  };
+
+  const toggleGrid = () => {
+    setShowGrid(!showGrid);
+  };
+
+  // Handle image upload: the image becomes the notebook's exercise, which is read
+  // by the exercise flow and comes back as the canvas background
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    try {
-      // Analyze uploaded image with OCR
-      const analysis = await canvasAnalysisService.analyzeUploadedImage(file);
-      
-      // Create image object and add to canvas
+    if (!file.type.startsWith('image/')) {
+      toast.error("Please upload an image file");
+    } else {
       const reader = new FileReader();
       reader.onload = (e) => {
-        const imgElement = new Image();
-        imgElement.onload = () => {
-          const fabricImage = new (window as any).fabric.Image(imgElement, {
-            left: 10,
-            top: 10,
-            scaleX: Math.min(400 / imgElement.width, 1),
-            scaleY: Math.min(400 / imgElement.height, 1),
-          });
-          
-          fabricCanvas?.add(fabricImage);
-          fabricCanvas?.renderAll();
-        };
-        imgElement.src = e.target?.result as string;
+        onExerciseUpload?.(e.target?.result as string);
+        toast("Exercise placed on the canvas. Use Background to move it.");
       };
+      reader.onerror = () => toast.error("Couldn't read that image");
       reader.readAsDataURL(file);
-      
-      toast(`Image uploaded and analyzed! Found: "${analysis.extractedText.substring(0, 50)}..."`);
-    } catch (error) {
-      console.error('Image upload failed:', error);
-      toast("Failed to analyze uploaded image");
     }
     
     // Reset file input
@@ -666,6 +1388,17 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
               <Type className="h-4 w-4" />
               Text
             </Button>
+
+            <Button
+              variant={activeTool === "math" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveTool("math")}
+              className="gap-2"
+              title="Type math in LaTeX or ASCII math"
+            >
+              <Sigma className="h-4 w-4" />
+              Math
+            </Button>
             
             <Button
               variant={activeTool === "erase" ? "default" : "outline"}
@@ -676,6 +1409,17 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
               <Eraser className="h-4 w-4" />
               Erase
             </Button>
+
+            <Button
+              variant={activeTool === "object-erase" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveTool("object-erase")}
+              className="gap-2"
+              title="Remove whole objects"
+            >
+              <Scissors className="h-4 w-4" />
+              Erase Objects
+            </Button>
             
             <Button
               variant={activeTool === "circle" ? "default" : "outline"}
@@ -716,6 +1460,31 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
               <Square className="h-4 w-4" />
               Select
             </Button>
+
+            <Button
+              variant={activeTool === "lasso" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setActiveTool("lasso")}
+              className="gap-2"
+              title="Circle handwriting to select it"
+            >
+              <LassoSelect className="h-4 w-4" />
+              Lasso
+            </Button>
+
+            {hasBackground && (
+              <Button
+                variant={activeTool === "background" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setActiveTool("background")}
+                disabled={!isLayerEditable(layers, 'background')}
+                className="gap-2"
+                title="Move or resize the exercise image"
+              >
+                <ImageIcon className="h-4 w-4" />
+                Background
+              </Button>
+            )}
           </div>
 
           <div className="flex items-center gap-2">
@@ -727,34 +1496,69 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
             >
               Grid
             </Button>
-            
-            {/* Image Upload */}
+
             <Button
-              variant="outline"
+              variant={isLayersOpen ? "default" : "outline"}
               size="sm"
-              onClick={() => fileInputRef.current?.click()}
+              onClick={() => setIsLayersOpen(!isLayersOpen)}
               className="gap-2"
+              title={`Drawing on ${findLayer(layers, activeLayerId).name}`}
             >
-              <Upload className="h-4 w-4" />
-              Upload
+              <Layers className="h-4 w-4" />
+              Layers
             </Button>
             
+            {/* Image Upload */}
+            {onExerciseUpload && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                className="gap-2"
+                title="Put an exercise image under your work"
+              >
+                <Upload className="h-4 w-4" />
+                Upload
+              </Button>
+            )}
+            
             {/* Live Analysis Toggle */}
             <Button
               variant={isLiveAnalysisEnabled ? "default" : "outline"}
               size="sm"
               onClick={toggleLiveAnalysis}
               className="gap-2"
+              title={isAnalyzing ? "The AI is reading your work..." : undefined}
             >
-              <Eye className="h-4 w-4" />
+              <Eye className={`h-4 w-4 ${isAnalyzing ? 'animate-pulse' : ''}`} />
               AI Watch
             </Button>
             
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUndo}
+              disabled={!historyState.canUndo}
+              title={historyState.undoLabel ? `Undo ${historyState.undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRedo}
+              disabled={!historyState.canRedo}
+              title={historyState.redoLabel ? `Redo ${historyState.redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            
             <Button variant="outline" size="sm" onClick={handleClearCanvas}>
               <RotateCcw className="h-4 w-4" />
             </Button>
             
-            <Button variant="outline" size="sm" onClick={handleDownload}>
+            <Button variant="outline" size="sm" onClick={onExport} disabled={!onExport} title="Export">
               <Download className="h-4 w-4" />
             </Button>
           </div>
@@ -767,12 +1571,13 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
             <Slider
               value={[brushSize]}
               onValueChange={(value) => setBrushSize(value[0])}
-              max={activeTool === 'text' ? 48 : 20}
+              max={activeTool === 'text' ? 48 : activeTool === 'erase' ? 40 : 20}
               min={1}
               step={1}
               className="w-24"
             />
             <span className="text-xs text-muted-foreground w-8 text-center">{brushSize}</span>
+            <PenSettingsPopover settings={penSettings} onChange={updatePenSettings} />
           </div>
 
           <div className="flex items-center gap-2">
@@ -789,18 +1594,107 @@ export const DrawingCanvas = ({ className, selectedPersonality = 'calm' }: Drawi
               />
             ))}
           </div>
+
+          {hasBackground && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium">Exercise:</span>
+              <Slider
+                value={[Math.round(findLayer(layers, 'background').opacity * 100)]}
+                onValueChange={(value) => handleLayersChange(layers.map(layer => layer.id === 'background' ? { ...layer, opacity: value[0] / 100 } : layer))}
+                max={100}
+                min={10}
+                step={5}
+                className="w-24"
+                aria-label="Exercise image opacity"
+              />
+              <span className="text-xs text-muted-foreground w-8 text-center">{Math.round(findLayer(layers, 'background').opacity * 100)}%</span>
+            </div>
+          )}
+
+          {/* Viewport Controls */}
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="sm" onClick={zoomOut} title="Zoom out (Ctrl+scroll)">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={resetView}
+              className="text-xs w-14"
+              title="Reset view"
+            >
+              {Math.round(zoom * 100)}%
+            </Button>
+            <Button variant="outline" size="sm" onClick={zoomIn} title="Zoom in (Ctrl+scroll)">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={zoomToFit} title="Zoom to fit">
+              <Maximize className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </div>
 
       {/* Canvas Area */}
-      <div className="border-2 border-border rounded-lg overflow-hidden bg-white">
+      <div className="relative border-2 border-border rounded-lg overflow-hidden bg-white">
         <canvas 
           ref={canvasRef} 
           className="block cursor-crosshair" 
           style={{ display: 'block' }}
         />
+        {isLayersOpen && (
+          <LayersPanel
+            layers={layers}
+            activeLayerId={activeLayerId}
+            onActiveLayerChange={setActiveLayerId}
+            onLayersChange={handleLayersChange}
+            className="absolute right-2 top-2 w-56"
+          />
+        )}
+        {lassoSelection.length > 0 && (
+          <Button
+            size="sm"
+            onClick={handleConvertToMath}
+            className="absolute left-1/2 top-2 -translate-x-1/2 gap-2 shadow-lg"
+          >
+            <Radical className="h-4 w-4" />
+            Convert to math
+          </Button>
+        )}
+        {mathInput && (
+          <MathInputPopover
+            input={mathInput.input}
+            format={mathInput.format}
+            onInputChange={(input) => setMathInput(current => current && { ...current, input })}
+            onFormatChange={handleMathFormatChange}
+            onDone={commitMathInput}
+            onCancel={cancelMathInput}
+            className="absolute z-10 w-80"
+            style={getMathInputStyle()}
+          />
+        )}
+        {tutorMarks.length > 0 && (
+          <TutorAnnotationsBar
+            marks={tutorMarks}
+            onAccept={acceptMark}
+            onDismiss={dismissMark}
+            onDismissAll={dismissAllMarks}
+            className="absolute left-2 bottom-2 w-64"
+          />
+        )}
       </div>
     </Card>
+
+      <MathEditorDialog
+        open={mathEditor !== null}
+        title="Convert to math"
+        description="Check what was read from your handwriting. Fix the LaTeX if needed, then replace the strokes."
+        confirmLabel="Replace strokes"
+        latex={mathEditor?.latex ?? ''}
+        isLoading={mathEditor?.isLoading}
+        onConfirm={handleMathConfirm}
+        onCancel={() => setMathEditor(null)}
+      />
     </div>
   );
 };
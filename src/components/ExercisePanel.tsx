@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { ChevronDown, FileText, Loader2, RotateCw } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { MarkdownMessage } from "@/components/MarkdownMessage";
+import type { NotebookExercise } from "@/services/notebookStorage";
+import { cn } from "@/lib/utils";
+
+interface ExercisePanelProps {
+  exercise: NotebookExercise;
+  isReading: boolean;
+  onRetry?: () => void;
+  className?: string;
+}
+
+// The current exercise as read from the uploaded image: statement, given data and sub-questions
+export const ExercisePanel = ({ exercise, isReading, onRetry, className }: ExercisePanelProps) => {
+  const [isOpen, setIsOpen] = useState(true);
+  const isEmpty = !exercise.statement && exercise.subQuestions.length === 0 && exercise.givenData.length === 0;
+
+  return (
+    <Card className={cn("px-4 py-3", className)}>
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <FileText className="h-4 w-4 text-primary" />
+            <h3 className="text-sm font-semibold text-foreground">Current exercise</h3>
+            {isReading && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Reading...
+              </span>
+            )}
+          </div>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" aria-label={isOpen ? "Hide exercise" : "Show exercise"}>
+              <ChevronDown className={cn("h-4 w-4 transition-transform", isOpen && "rotate-180")} />
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+
+        <CollapsibleContent className="pt-2 text-sm">
+          {isEmpty ? (
+            !isReading && (
+              <div className="flex items-center justify-between gap-2 text-muted-foreground">
+                <span>No text was read from the exercise image.</span>
+                {onRetry && (
+                  <Button variant="outline" size="sm" className="h-7 gap-1" onClick={onRetry}>
+                    <RotateCw className="h-3 w-3" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+            )
+          ) : (
+            <div className="max-h-48 space-y-2 overflow-y-auto">
+              {exercise.statement && <MarkdownMessage content={exercise.statement} />}
+
+              {exercise.givenData.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium uppercase text-muted-foreground">Given</p>
+                  <ul className="ml-4 list-disc">
+                    {exercise.givenData.map((item, i) => (
+                      <li key={i}><MarkdownMessage content={item} /></li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {exercise.subQuestions.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium uppercase text-muted-foreground">Questions</p>
+                  <ol className="ml-4 list-decimal">
+                    {exercise.subQuestions.map((item, i) => (
+                      <li key={i}><MarkdownMessage content={item} /></li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </div>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+};
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { downloadFile, exportNotebookPdf, exportPagePng, exportPageSvg, toFileName } from "@/lib/notebookExport";
+import { DOODLE_FILE_EXTENSION, writeDoodleFile } from "@/lib/doodleFile";
+import type { NotebookMessage, NotebookPage, NotebookPersonality } from "@/services/notebookStorage";
+
+type ExportFormat = 'pdf' | 'svg' | 'png' | 'doodle';
+type PageScope = 'current' | 'all';
+
+const PNG_MULTIPLIERS = [1, 2, 3, 4];
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notebookName: string;
+  personality: NotebookPersonality;
+  pages: NotebookPage[];
+  activePageId: string;
+  // Read when exporting, so the transcript has the latest messages
+  getMessages: () => NotebookMessage[];
+}
+
+// Download the notebook as a PDF or a .doodle file, or pages as SVG or PNG
+export const ExportDialog = ({ open, onOpenChange, notebookName, personality, pages, activePageId, getMessages }: ExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [scope, setScope] = useState<PageScope>('current');
+  const [multiplier, setMultiplier] = useState(2);
+  const [includeGrid, setIncludeGrid] = useState(false);
+  const [includeAnnotations, setIncludeAnnotations] = useState(true);
+  const [includeTranscript, setIncludeTranscript] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    const options = { includeGrid, includeAnnotations };
+    const baseName = toFileName(notebookName);
+    setIsExporting(true);
+
+    try {
+      if (format === 'pdf') {
+        const pdf = await exportNotebookPdf(pages, options, includeTranscript ? getMessages() : undefined);
+        downloadFile(pdf, `${baseName}.pdf`);
+      } else if (format === 'doodle') {
+        // Sharing just this page makes a one-page notebook, still with the chat
+        const file = await writeDoodleFile({
+          name: notebookName,
+          personality,
+          pages: scope === 'all' ? pages : pages.filter(page => page.id === activePageId),
+          activePageId,
+          messages: getMessages(),
+        });
+        downloadFile(file, `${baseName}${DOODLE_FILE_EXTENSION}`);
+      } else {
+        // Each page is its own file, named by its number in the notebook
+        const selected = pages
+          .map((page, index) => ({ page, number: index + 1 }))
+          .filter(({ page }) => scope === 'all' || page.id === activePageId);
+
+        for (const { page, number } of selected) {
+          const fileName = `${baseName}-page-${number}.${format}`;
+          if (format === 'svg') {
+            const svg = await exportPageSvg(page, options);
+            downloadFile(new Blob([svg], { type: 'image/svg+xml' }), fileName);
+          } else {
+            downloadFile(await exportPagePng(page, multiplier, options), fileName);
+          }
+        }
+      }
+
+      toast("Notebook exported!");
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to export notebook:', error);
+      toast.error("Couldn't export the notebook");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isExporting && onOpenChange(isOpen)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export notebook</DialogTitle>
+          <DialogDescription>
+            PDF holds every page. SVG and PNG save one file per page. A notebook file opens again from the Notebooks page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="flex flex-wrap gap-x-4 gap-y-2">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="pdf" id="export-pdf" />
+                <Label htmlFor="export-pdf" className="font-normal">PDF</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="svg" id="export-svg" />
+                <Label htmlFor="export-svg" className="font-normal">SVG (vector)</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="png" id="export-png" />
+                <Label htmlFor="export-png" className="font-normal">PNG</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="doodle" id="export-doodle" />
+                <Label htmlFor="export-doodle" className="font-normal">Notebook file</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          {format !== 'pdf' && (
+            <div className="space-y-2">
+              <Label>Pages</Label>
+              <RadioGroup value={scope} onValueChange={(value) => setScope(value as PageScope)} className="flex gap-4">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="current" id="export-current" />
+                  <Label htmlFor="export-current" className="font-normal">This page</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="all" id="export-all" />
+                  <Label htmlFor="export-all" className="font-normal">All {pages.length} pages</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+
+          {format === 'png' && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-resolution">Resolution</Label>
+              <Select value={String(multiplier)} onValueChange={(value) => setMultiplier(Number(value))}>
+                <SelectTrigger id="export-resolution" className="h-8 w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PNG_MULTIPLIERS.map(value => (
+                    <SelectItem key={value} value={String(value)}>{value}x</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {format !== 'doodle' && (
+            <>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="export-grid" className="font-normal">Grid</Label>
+                <Switch id="export-grid" checked={includeGrid} onCheckedChange={setIncludeGrid} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="export-annotations" className="font-normal">Tutor annotations</Label>
+                <Switch id="export-annotations" checked={includeAnnotations} onCheckedChange={setIncludeAnnotations} />
+              </div>
+            </>
+          )}
+          {format === 'pdf' && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-transcript" className="font-normal">Chat transcript as the last page</Label>
+              <Switch id="export-transcript" checked={includeTranscript} onCheckedChange={setIncludeTranscript} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>Cancel</Button>
+          <Button onClick={handleExport} disabled={isExporting} className="gap-2">
+            {isExporting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,5 @@
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Upload, X, FileImage, Image } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -7,15 +7,22 @@ import { toast } from "sonner";
 
 interface ImageUploadProps {
   className?: string;
+  // Image attached elsewhere (a reopened notebook, the canvas upload), shown when it changes
+  image?: string | null;
   onImageUpload?: (imageUrl: string) => void;
+  onImageRemove?: () => void;
 }
 
-export const ImageUpload = ({ className, onImageUpload }: ImageUploadProps) => {
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+export const ImageUpload = ({ className, image, onImageUpload, onImageRemove }: ImageUploadProps) => {
+  const [uploadedImage, setUploadedImage] = useState<string | null>(image ?? null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    setUploadedImage(image ?? null);
+  }, [image]);
+
   const handleFileUpload = (file: File) => {
     if (!file.type.startsWith('image/')) {
       toast.error("Please upload an image file");
@@ -55,6 +62,7 @@ export const ImageUpload = ({ className, onImageUpload }: ImageUploadProps) => {
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
+    onImageRemove?.();
     toast("Image removed");
   };
 
@@ -0,0 +1,110 @@
+import { ChevronDown, ChevronUp, Eye, EyeOff, Lock, Unlock } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { isDrawableLayer, type CanvasLayer, type LayerId } from "@/lib/canvasLayers";
+import { cn } from "@/lib/utils";
+
+interface LayersPanelProps {
+  layers: CanvasLayer[];
+  activeLayerId: LayerId;
+  onActiveLayerChange: (id: LayerId) => void;
+  onLayersChange: (layers: CanvasLayer[]) => void;
+  className?: string;
+}
+
+// Layer list, topmost first. New strokes, text and shapes go onto the active layer.
+export const LayersPanel = ({ layers, activeLayerId, onActiveLayerChange, onLayersChange, className }: LayersPanelProps) => {
+  const updateLayer = (id: LayerId, changes: Partial<CanvasLayer>) => {
+    onLayersChange(layers.map(layer => layer.id === id ? { ...layer, ...changes } : layer));
+  };
+
+  // `offset` is in stacking order: +1 moves the layer up, above the next one
+  const moveLayer = (index: number, offset: number) => {
+    const next = [...layers];
+    const [layer] = next.splice(index, 1);
+    next.splice(index + offset, 0, layer);
+    onLayersChange(next);
+  };
+
+  return (
+    <Card className={cn("p-2 space-y-1 shadow-lg", className)}>
+      <h3 className="px-1 text-sm font-semibold text-foreground">Layers</h3>
+      {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+        <div
+          key={layer.id}
+          className={cn(
+            "rounded-md border px-2 py-1.5 space-y-1",
+            layer.id === activeLayerId ? "border-primary bg-primary/5" : "border-transparent"
+          )}
+        >
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={() => onActiveLayerChange(layer.id)}
+              disabled={!isDrawableLayer(layer.id)}
+              className={cn(
+                "flex-1 truncate text-left text-sm",
+                !layer.visible && "text-muted-foreground",
+                !isDrawableLayer(layer.id) && "cursor-default"
+              )}
+              title={isDrawableLayer(layer.id) ? `Draw on ${layer.name}` : "Only the tutor draws here"}
+            >
+              {layer.name}
+            </button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => updateLayer(layer.id, { visible: !layer.visible })}
+              aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+            >
+              {layer.visible ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => updateLayer(layer.id, { locked: !layer.locked })}
+              aria-label={layer.locked ? `Unlock ${layer.name}` : `Lock ${layer.name}`}
+            >
+              {layer.locked ? <Lock className="h-3.5 w-3.5" /> : <Unlock className="h-3.5 w-3.5" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => moveLayer(index, 1)}
+              disabled={index === layers.length - 1}
+              aria-label={`Move ${layer.name} up`}
+            >
+              <ChevronUp className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => moveLayer(index, -1)}
+              disabled={index === 0}
+              aria-label={`Move ${layer.name} down`}
+            >
+              <ChevronDown className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Slider
+              value={[Math.round(layer.opacity * 100)]}
+              onValueChange={(value) => updateLayer(layer.id, { opacity: value[0] / 100 })}
+              max={100}
+              min={10}
+              step={5}
+              className="flex-1"
+              aria-label={`${layer.name} opacity`}
+            />
+            <span className="w-8 text-right text-xs text-muted-foreground">{Math.round(layer.opacity * 100)}%</span>
+          </div>
+        </div>
+      ))}
+    </Card>
+  );
+};
@@ -4,6 +4,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { MarkdownMessage } from "@/components/MarkdownMessage";
 import { LiveCommentary } from "@/services/canvasAnalysis";
 import { ApiService } from "@/services/api";
 
@@ -225,9 +226,7 @@ export const LiveCommentaryComponent = ({
                     </span>
                   </div>
                   
-                  <p className="text-sm leading-relaxed">
-                    {comment.message}
-                  </p>
+                  <MarkdownMessage content={comment.message} className="text-sm leading-relaxed" />
                   
                   {/* Debug info for trigger reason (only in development) */}
                   {process.env.NODE_ENV === 'development' && (
@@ -0,0 +1,121 @@
+import { useMemo, type ComponentProps } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface MarkdownMessageProps {
+  content: string;
+  className?: string;
+}
+
+// remark-math turns math into <code class="language-math math-inline|math-display">;
+// keep those classes through sanitizing so the math can be typeset afterwards
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+// Models often use \( \) and \[ \] delimiters, which remark-math doesn't know
+const normalizeMathDelimiters = (content: string) => {
+  return content
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$${math.trim()}$`);
+};
+
+const renderMath = (source: string, displayMode: boolean) => {
+  return katex.renderToString(source, { displayMode, throwOnError: false, output: 'html' });
+};
+
+const copyToClipboard = async (source: string) => {
+  try {
+    await navigator.clipboard.writeText(source);
+    toast("Copied LaTeX to clipboard");
+  } catch (error) {
+    console.error('Failed to copy math:', error);
+    toast.error("Couldn't copy to clipboard");
+  }
+};
+
+const MathBlock = ({ source }: { source: string }) => (
+  <div className="group relative my-2 rounded-md bg-background/60 px-3 py-2">
+    <div className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: renderMath(source, true) }} />
+    <button
+      type="button"
+      onClick={() => copyToClipboard(source)}
+      className="absolute right-1 top-1 rounded p-1 opacity-0 transition-opacity hover:bg-muted group-hover:opacity-100 focus:opacity-100"
+      title="Copy LaTeX"
+      aria-label="Copy LaTeX"
+    >
+      <Copy className="h-3 w-3" />
+    </button>
+  </div>
+);
+
+const getClassNames = (className: unknown): string[] => {
+  if (Array.isArray(className)) return className.map(String);
+  return typeof className === 'string' ? className.split(' ') : [];
+};
+
+const components: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  ul: ({ children }) => <ul className="mb-2 ml-4 list-disc space-y-1 last:mb-0">{children}</ul>,
+  ol: ({ children }) => <ol className="mb-2 ml-4 list-decimal space-y-1 last:mb-0">{children}</ol>,
+  a: ({ children, href }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  h1: ({ children }) => <h4 className="mb-1 font-semibold">{children}</h4>,
+  h2: ({ children }) => <h4 className="mb-1 font-semibold">{children}</h4>,
+  h3: ({ children }) => <h4 className="mb-1 font-semibold">{children}</h4>,
+  blockquote: ({ children }) => <blockquote className="mb-2 border-l-2 pl-3 italic">{children}</blockquote>,
+  table: ({ children }) => (
+    <div className="mb-2 overflow-x-auto">
+      <table className="text-xs [&_td]:border [&_td]:px-2 [&_td]:py-1 [&_th]:border [&_th]:px-2 [&_th]:py-1">{children}</table>
+    </div>
+  ),
+  pre: ({ children, node }) => {
+    // Display math is rendered as its own block instead of a code block
+    const code = node?.children[0];
+    if (code?.type === 'element' && getClassNames(code.properties?.className).includes('math-display')) {
+      return <>{children}</>;
+    }
+    return <pre className="mb-2 overflow-x-auto rounded-md bg-background/60 p-2 text-xs last:mb-0">{children}</pre>;
+  },
+  code: ({ children, className }: ComponentProps<'code'>) => {
+    const classes = getClassNames(className);
+    const source = String(children ?? '').trim();
+
+    if (classes.includes('math-display')) return <MathBlock source={source} />;
+    if (classes.includes('math-inline')) {
+      return <span dangerouslySetInnerHTML={{ __html: renderMath(source, false) }} />;
+    }
+    return <code className="rounded bg-background/60 px-1 py-0.5 font-mono text-[0.85em]">{children}</code>;
+  },
+};
+
+// Renders tutor text as sanitized Markdown with inline ($...$) and block ($$...$$) LaTeX
+export const MarkdownMessage = ({ content, className }: MarkdownMessageProps) => {
+  const markdown = useMemo(() => normalizeMathDelimiters(content), [content]);
+
+  return (
+    <div className={cn("break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, sanitizeSchema]]}
+        components={components}
+      >
+        {markdown}
+      </ReactMarkdown>
+    </div>
+  );
+};
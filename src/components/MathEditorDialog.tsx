@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MarkdownMessage } from "@/components/MarkdownMessage";
+
+interface MathEditorDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  latex: string;
+  // Shown while the LaTeX is still being recognized
+  isLoading?: boolean;
+  onConfirm: (latex: string) => void;
+  onCancel: () => void;
+}
+
+// Edit LaTeX with a live preview of the typeset result
+export const MathEditorDialog = ({
+  open,
+  title,
+  description,
+  confirmLabel,
+  latex,
+  isLoading = false,
+  onConfirm,
+  onCancel,
+}: MathEditorDialogProps) => {
+  const [source, setSource] = useState(latex);
+
+  useEffect(() => {
+    setSource(latex);
+  }, [latex]);
+
+  const trimmed = source.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading your handwriting...
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="min-h-16 rounded-md border bg-muted/30 px-3 py-2">
+              {trimmed ? (
+                <MarkdownMessage content={`$$\n${trimmed}\n$$`} />
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing to show yet.</p>
+              )}
+            </div>
+            <Textarea
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="font-mono text-sm"
+              rows={3}
+              aria-label="LaTeX source"
+              autoFocus
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(trimmed)} disabled={isLoading || !trimmed}>
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,78 @@
+import type { CSSProperties } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { MathFormat } from "@/lib/mathObjects";
+import { cn } from "@/lib/utils";
+
+interface MathInputPopoverProps {
+  input: string;
+  format: MathFormat;
+  onInputChange: (input: string) => void;
+  onFormatChange: (format: MathFormat) => void;
+  onDone: () => void;
+  onCancel: () => void;
+  className?: string;
+  style?: CSSProperties;
+}
+
+const FORMATS: { id: MathFormat; label: string; placeholder: string }[] = [
+  { id: 'asciimath', label: 'ASCII', placeholder: 'x^2/3 + sqrt(x)' },
+  { id: 'latex', label: 'LaTeX', placeholder: '\\frac{x^2}{3} + \\sqrt{x}' },
+];
+
+// Source box for typed math; the math itself is previewed on the canvas as it's typed
+export const MathInputPopover = ({
+  input,
+  format,
+  onInputChange,
+  onFormatChange,
+  onDone,
+  onCancel,
+  className,
+  style,
+}: MathInputPopoverProps) => {
+  const current = FORMATS.find(option => option.id === format) ?? FORMATS[0];
+
+  return (
+    <Card className={cn("p-2 space-y-2 shadow-lg", className)} style={style}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {FORMATS.map(option => (
+            <Button
+              key={option.id}
+              variant={option.id === format ? "default" : "ghost"}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onFormatChange(option.id)}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <span className="text-xs text-muted-foreground">Enter to place, Esc to cancel</span>
+      </div>
+      <Input
+        value={input}
+        onChange={(e) => onInputChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            onDone();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+          }
+        }}
+        placeholder={current.placeholder}
+        className="h-8 font-mono text-sm"
+        aria-label={`${current.label} source`}
+        autoFocus
+      />
+      <div className="flex justify-end gap-1">
+        <Button variant="outline" size="sm" className="h-7" onClick={onCancel}>Cancel</Button>
+        <Button size="sm" className="h-7" onClick={onDone} disabled={!input.trim()}>Done</Button>
+      </div>
+    </Card>
+  );
+};
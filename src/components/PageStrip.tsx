@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Copy, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { NotebookPage } from "@/services/notebookStorage";
+import { cn } from "@/lib/utils";
+
+interface PageStripProps {
+  pages: NotebookPage[];
+  activePageId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDuplicate: (id: string) => void;
+  // -1 moves the page one earlier, +1 one later
+  onMove: (id: string, offset: number) => void;
+  onDelete: (id: string) => void;
+  className?: string;
+}
+
+// The notebook's pages as thumbnails; the buttons act on the open page
+export const PageStrip = ({ pages, activePageId, onSelect, onAdd, onDuplicate, onMove, onDelete, className }: PageStripProps) => {
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const activeIndex = pages.findIndex(page => page.id === activePageId);
+
+  return (
+    <Card className={cn("flex items-center gap-2 p-2", className)}>
+      <div className="flex flex-1 gap-2 overflow-x-auto pb-1">
+        {pages.map((page, index) => (
+          <button
+            key={page.id}
+            onClick={() => onSelect(page.id)}
+            className={cn(
+              "flex shrink-0 flex-col items-center gap-1 rounded-md border-2 p-1 transition-colors",
+              page.id === activePageId ? "border-primary" : "border-transparent hover:border-border"
+            )}
+            aria-label={`Page ${index + 1}`}
+            aria-current={page.id === activePageId ? "page" : undefined}
+          >
+            <div className="flex h-14 w-20 items-center justify-center overflow-hidden rounded-sm border bg-white">
+              {page.thumbnail && <img src={page.thumbnail} alt="" className="max-h-full max-w-full object-contain" />}
+            </div>
+            <span className="text-xs text-muted-foreground">{index + 1}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex shrink-0 items-center gap-1">
+        <Button variant="outline" size="sm" onClick={onAdd} className="gap-1" title="Add a page after this one">
+          <Plus className="h-4 w-4" />
+          Page
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onDuplicate(activePageId)} title="Duplicate page">
+          <Copy className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => onMove(activePageId, -1)}
+          disabled={activeIndex <= 0}
+          title="Move page earlier"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => onMove(activePageId, 1)}
+          disabled={activeIndex === pages.length - 1}
+          title="Move page later"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => setIsConfirmingDelete(true)}
+          disabled={pages.length === 1}
+          title="Delete page"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete page {activeIndex + 1}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The drawing and the exercise on this page will be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onDelete(activePageId)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
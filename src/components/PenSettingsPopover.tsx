@@ -0,0 +1,69 @@
+import { PenTool } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import type { PenSettings } from "@/hooks/use-pen-settings";
+
+interface PenSettingsPopoverProps {
+  settings: PenSettings;
+  onChange: (changes: Partial<PenSettings>) => void;
+}
+
+// Stylus options for the pen tool
+export const PenSettingsPopover = ({ settings, onChange }: PenSettingsPopoverProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" title="Pen settings">
+          <PenTool className="h-4 w-4" />
+          Pen
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="pen-pressure">Pressure and tilt</Label>
+            <p className="text-xs text-muted-foreground">Press harder or tilt the pen for a wider line</p>
+          </div>
+          <Switch id="pen-pressure" checked={settings.pressure} onCheckedChange={(pressure) => onChange({ pressure })} />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="pen-only">Pen only</Label>
+            <p className="text-xs text-muted-foreground">Only the stylus draws; fingers and palms pan</p>
+          </div>
+          <Switch id="pen-only" checked={settings.penOnly} onCheckedChange={(penOnly) => onChange({ penOnly })} />
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="pen-smart-ink">Smart ink</Label>
+            <p className="text-xs text-muted-foreground">Snap sketched lines, arrows, circles and polygons to clean shapes</p>
+          </div>
+          <Switch id="pen-smart-ink" checked={settings.smartInk} onCheckedChange={(smartInk) => onChange({ smartInk })} />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Stabilizer</Label>
+            <span className="text-xs text-muted-foreground">
+              {settings.stabilizer === 0 ? 'Off' : `${Math.round(settings.stabilizer * 100)}%`}
+            </span>
+          </div>
+          <Slider
+            value={[Math.round(settings.stabilizer * 100)]}
+            onValueChange={(value) => onChange({ stabilizer: value[0] / 100 })}
+            max={100}
+            min={0}
+            step={5}
+            aria-label="Stabilizer"
+          />
+          <p className="text-xs text-muted-foreground">Smooths shaky lines; the line trails the pen a little more</p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
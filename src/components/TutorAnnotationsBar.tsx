@@ -0,0 +1,63 @@
+import { Check, PenLine, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { TutorAnnotation } from "@/services/api";
+import { describeAnnotation } from "@/lib/tutorAnnotations";
+import { cn } from "@/lib/utils";
+
+export interface TutorMark {
+  id: string;
+  annotation: TutorAnnotation;
+}
+
+interface TutorAnnotationsBarProps {
+  marks: TutorMark[];
+  onAccept: (id: string) => void;
+  onDismiss: (id: string) => void;
+  onDismissAll: () => void;
+  className?: string;
+}
+
+// The tutor's marks on the canvas: accepting one keeps it as the student's own annotation
+export const TutorAnnotationsBar = ({ marks, onAccept, onDismiss, onDismissAll, className }: TutorAnnotationsBarProps) => {
+  return (
+    <Card className={cn("p-2 space-y-1 shadow-lg", className)}>
+      <div className="flex items-center justify-between gap-2 px-1">
+        <div className="flex items-center gap-2">
+          <PenLine className="h-4 w-4 text-rose-600" />
+          <h3 className="text-sm font-semibold text-foreground">Tutor marks</h3>
+        </div>
+        {marks.length > 1 && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onDismissAll}>
+            Dismiss all
+          </Button>
+        )}
+      </div>
+      {marks.map(({ id, annotation }) => (
+        <div key={id} className="flex items-center gap-1 px-1">
+          <span className="flex-1 truncate text-sm">{describeAnnotation(annotation)}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => onAccept(id)}
+            aria-label="Keep this mark"
+            title="Keep this mark"
+          >
+            <Check className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => onDismiss(id)}
+            aria-label="Dismiss this mark"
+            title="Dismiss this mark"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </Card>
+  );
+};
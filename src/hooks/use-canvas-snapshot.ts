@@ -0,0 +1,26 @@
+import { createContext, useContext } from "react";
+import type { AnnotationAnchor } from "@/services/api";
+
+export interface CanvasSnapshot {
+  image: Blob;
+  // Text the live analysis last read off the canvas, if any
+  extractedText?: string;
+  // Where each line of that text sits, so the tutor can mark it
+  regions?: AnnotationAnchor[];
+}
+
+export type CanvasSnapshotSource = () => Promise<CanvasSnapshot | null>;
+
+interface CanvasSnapshotContextValue {
+  registerSource: (source: CanvasSnapshotSource) => () => void;
+  captureSnapshot: () => Promise<CanvasSnapshot | null>;
+}
+
+export const CanvasSnapshotContext = createContext<CanvasSnapshotContextValue>({
+  registerSource: () => () => {},
+  captureSnapshot: async () => null,
+});
+
+export function useCanvasSnapshot() {
+  return useContext(CanvasSnapshotContext);
+}
@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Point, type Canvas as FabricCanvas, type TPointerEventInfo } from "fabric";
+import { getContentBounds } from "@/lib/canvasObjects";
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.2;
+const FIT_PADDING = 40;
+// How long a single touch is held back to see whether a second finger follows
+const TOUCH_GESTURE_DELAY = 80;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const isTypingTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable);
+};
+
+interface TouchGesture {
+  startDistance: number;
+  startZoom: number;
+  lastMidpoint: Point;
+}
+
+// Pan (space+drag, middle mouse, wheel, two fingers) and zoom (Ctrl+wheel, pinch)
+// for a Fabric canvas. Gestures are intercepted before Fabric sees them so the
+// active tool never receives the pointer events that belong to a pan.
+// With `penOnly`, touch never reaches the tools: one finger pans, and touches
+// while a pen is down (a resting palm) are ignored.
+export function useCanvasViewport(canvas: FabricCanvas | null, onViewportChange?: () => void, penOnly = false) {
+  const [zoom, setZoom] = useState(1);
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
+  const penOnlyRef = useRef(penOnly);
+  penOnlyRef.current = penOnly;
+  const frameRef = useRef<number | null>(null);
+
+  const notifyViewportChange = useCallback(() => {
+    if (!canvas) return;
+    setZoom(canvas.getZoom());
+
+    // Coalesce bursts of wheel/pointer events into one update per frame
+    if (frameRef.current) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      onViewportChangeRef.current?.();
+      canvas.requestRenderAll();
+    });
+  }, [canvas]);
+
+  const zoomAt = useCallback((point: Point, nextZoom: number) => {
+    if (!canvas) return;
+    canvas.zoomToPoint(point, clampZoom(nextZoom));
+    notifyViewportChange();
+  }, [canvas, notifyViewportChange]);
+
+  const canvasCenter = useCallback(() => {
+    return new Point((canvas?.width ?? 0) / 2, (canvas?.height ?? 0) / 2);
+  }, [canvas]);
+
+  const zoomIn = useCallback(() => {
+    if (canvas) zoomAt(canvasCenter(), canvas.getZoom() * ZOOM_STEP);
+  }, [canvas, canvasCenter, zoomAt]);
+
+  const zoomOut = useCallback(() => {
+    if (canvas) zoomAt(canvasCenter(), canvas.getZoom() / ZOOM_STEP);
+  }, [canvas, canvasCenter, zoomAt]);
+
+  const resetView = useCallback(() => {
+    if (!canvas) return;
+    canvas.setViewportTransform([1, 0, 0, 1, 0, 0]);
+    notifyViewportChange();
+  }, [canvas, notifyViewportChange]);
+
+  const zoomToFit = useCallback(() => {
+    if (!canvas) return;
+
+    const bounds = getContentBounds(canvas);
+    if (!bounds) {
+      resetView();
+      return;
+    }
+
+    const { left, top, right, bottom } = bounds;
+
+    const width = Math.max(right - left, 1);
+    const height = Math.max(bottom - top, 1);
+    const nextZoom = clampZoom(Math.min(
+      (canvas.width - FIT_PADDING * 2) / width,
+      (canvas.height - FIT_PADDING * 2) / height
+    ));
+
+    canvas.setViewportTransform([
+      nextZoom, 0, 0, nextZoom,
+      canvas.width / 2 - (left + width / 2) * nextZoom,
+      canvas.height / 2 - (top + height / 2) * nextZoom,
+    ]);
+    notifyViewportChange();
+  }, [canvas, notifyViewportChange, resetView]);
+
+  // Wheel: Ctrl/Cmd (and trackpad pinch) zooms around the cursor, plain wheel pans
+  useEffect(() => {
+    if (!canvas) return;
+
+    const handleWheel = ({ e }: TPointerEventInfo<WheelEvent>) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.ctrlKey || e.metaKey) {
+        zoomAt(new Point(e.offsetX, e.offsetY), canvas.getZoom() * Math.pow(0.998, e.deltaY));
+      } else {
+        canvas.relativePan(new Point(-e.deltaX, -e.deltaY));
+        notifyViewportChange();
+      }
+    };
+
+    canvas.on('mouse:wheel', handleWheel);
+    return () => {
+      canvas.off('mouse:wheel', handleWheel);
+    };
+  }, [canvas, zoomAt, notifyViewportChange]);
+
+  // Space+drag, middle mouse drag and two-finger touch
+  useEffect(() => {
+    if (!canvas) return;
+
+    const wrapper = canvas.wrapperEl;
+    const upperCanvas = canvas.upperCanvasEl;
+    const replayedEvents = new WeakSet<Event>();
+    const touches = new Map<number, Point>();
+    let isSpaceHeld = false;
+    let isPointerOver = false;
+    let dragPan: { pointerId: number; last: Point } | null = null;
+    let gesture: TouchGesture | null = null;
+    let pendingTouch: { event: PointerEvent; timer: number } | null = null;
+    let forwardedTouchId: number | null = null;
+    let activePenId: number | null = null;
+
+    const localPoint = (e: PointerEvent) => {
+      const rect = upperCanvas.getBoundingClientRect();
+      return new Point(e.clientX - rect.left, e.clientY - rect.top);
+    };
+
+    const replay = (event: PointerEvent) => {
+      const clone = new PointerEvent(event.type, event);
+      replayedEvents.add(clone);
+      upperCanvas.dispatchEvent(clone);
+    };
+
+    const startGesture = () => {
+      const [a, b] = [...touches.values()];
+      gesture = {
+        startDistance: Math.max(a.distanceFrom(b), 1),
+        startZoom: canvas.getZoom(),
+        lastMidpoint: a.midPointFrom(b),
+      };
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (replayedEvents.has(e)) return;
+
+      if (e.pointerType === 'pen') {
+        activePenId = e.pointerId;
+        if (penOnlyRef.current) {
+          // The pen takes over from a palm that landed first
+          touches.clear();
+          gesture = null;
+        }
+      }
+
+      if (e.pointerType === 'touch') {
+        e.stopPropagation();
+        if (penOnlyRef.current && activePenId !== null) return;
+        touches.set(e.pointerId, localPoint(e));
+
+        // In pen-only mode a single finger pans (see pointermove) and is never handed to the tool
+        if (touches.size === 1 && !penOnlyRef.current) {
+          // Hold the touch back briefly; if no second finger arrives it is a normal tool stroke
+          pendingTouch = {
+            event: e,
+            timer: window.setTimeout(() => {
+              if (!pendingTouch) return;
+              forwardedTouchId = pendingTouch.event.pointerId;
+              replay(pendingTouch.event);
+              pendingTouch = null;
+            }, TOUCH_GESTURE_DELAY),
+          };
+        } else if (touches.size === 2) {
+          if (pendingTouch) {
+            clearTimeout(pendingTouch.timer);
+            pendingTouch = null;
+          }
+          if (forwardedTouchId !== null) {
+            // The first finger already started a tool action; end it where it is
+            replay(new PointerEvent('pointerup', { pointerId: forwardedTouchId, pointerType: 'touch', isPrimary: true }));
+            forwardedTouchId = null;
+          }
+          startGesture();
+        }
+        return;
+      }
+
+      if (e.button === 1 || (isSpaceHeld && e.button === 0)) {
+        e.preventDefault();
+        e.stopPropagation();
+        wrapper.setPointerCapture(e.pointerId);
+        dragPan = { pointerId: e.pointerId, last: new Point(e.clientX, e.clientY) };
+        canvas.setCursor('grabbing');
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (replayedEvents.has(e)) return;
+
+      if (dragPan && e.pointerId === dragPan.pointerId) {
+        e.stopPropagation();
+        const point = new Point(e.clientX, e.clientY);
+        canvas.relativePan(point.subtract(dragPan.last));
+        dragPan.last = point;
+        notifyViewportChange();
+        return;
+      }
+
+      if (e.pointerType === 'touch' && penOnlyRef.current && !touches.has(e.pointerId)) {
+        e.stopPropagation();
+        return;
+      }
+
+      if (e.pointerType === 'touch' && touches.has(e.pointerId) && e.pointerId !== forwardedTouchId) {
+        e.stopPropagation();
+        const previous = touches.get(e.pointerId)!;
+        const point = localPoint(e);
+        touches.set(e.pointerId, point);
+
+        if (penOnlyRef.current && touches.size === 1) {
+          canvas.relativePan(point.subtract(previous));
+          notifyViewportChange();
+        } else if (gesture && touches.size >= 2) {
+          const [a, b] = [...touches.values()];
+          const midpoint = a.midPointFrom(b);
+          const nextZoom = clampZoom(gesture.startZoom * (a.distanceFrom(b) / gesture.startDistance));
+
+          canvas.zoomToPoint(midpoint, nextZoom);
+          canvas.relativePan(midpoint.subtract(gesture.lastMidpoint));
+          gesture.lastMidpoint = midpoint;
+          notifyViewportChange();
+        }
+      }
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (replayedEvents.has(e)) return;
+
+      if (e.pointerId === activePenId) {
+        activePenId = null;
+      }
+
+      if (dragPan && e.pointerId === dragPan.pointerId) {
+        e.stopPropagation();
+        if (wrapper.hasPointerCapture(e.pointerId)) {
+          wrapper.releasePointerCapture(e.pointerId);
+        }
+        dragPan = null;
+        canvas.setCursor(isSpaceHeld ? 'grab' : canvas.defaultCursor);
+        return;
+      }
+
+      if (e.pointerType === 'touch' && penOnlyRef.current && !touches.has(e.pointerId)) {
+        e.stopPropagation();
+        return;
+      }
+      if (e.pointerType !== 'touch' || !touches.has(e.pointerId)) return;
+
+      touches.delete(e.pointerId);
+      if (e.pointerId === forwardedTouchId) {
+        forwardedTouchId = null;
+        return; // Let Fabric finish the stroke
+      }
+
+      e.stopPropagation();
+      if (pendingTouch && pendingTouch.event.pointerId === e.pointerId) {
+        // A quick tap: hand both halves to Fabric so taps still place text, select, etc.
+        clearTimeout(pendingTouch.timer);
+        replay(pendingTouch.event);
+        pendingTouch = null;
+        replay(e);
+      }
+      if (touches.size < 2) {
+        gesture = null;
+      }
+    };
+
+    const handlePointerEnter = () => { isPointerOver = true; };
+    const handlePointerLeave = () => { isPointerOver = false; };
+
+    // Space pans only when it's meant for the canvas; elsewhere it still presses buttons,
+    // switches and the like
+    const isCanvasKey = (e: KeyboardEvent) => {
+      return isPointerOver || e.target === document.body || wrapper.contains(e.target as Node);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e.target) || !isCanvasKey(e)) return;
+      e.preventDefault(); // Don't scroll the page
+      if (!isSpaceHeld) {
+        isSpaceHeld = true;
+        canvas.setCursor('grab');
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      isSpaceHeld = false;
+      if (!dragPan) {
+        canvas.setCursor(canvas.defaultCursor);
+      }
+    };
+
+    wrapper.addEventListener('pointerdown', handlePointerDown, true);
+    wrapper.addEventListener('pointermove', handlePointerMove, true);
+    wrapper.addEventListener('pointerup', handlePointerUp, true);
+    wrapper.addEventListener('pointercancel', handlePointerUp, true);
+    wrapper.addEventListener('pointerenter', handlePointerEnter);
+    wrapper.addEventListener('pointerleave', handlePointerLeave);
+    document.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      if (pendingTouch) clearTimeout(pendingTouch.timer);
+      wrapper.removeEventListener('pointerdown', handlePointerDown, true);
+      wrapper.removeEventListener('pointermove', handlePointerMove, true);
+      wrapper.removeEventListener('pointerup', handlePointerUp, true);
+      wrapper.removeEventListener('pointercancel', handlePointerUp, true);
+      wrapper.removeEventListener('pointerenter', handlePointerEnter);
+      wrapper.removeEventListener('pointerleave', handlePointerLeave);
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [canvas, notifyViewportChange]);
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, []);
+
+  return { zoom, zoomIn, zoomOut, resetView, zoomToFit };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { ApiService } from "@/services/api";
+import { canvasAnalysisService } from "@/services/canvasAnalysis";
+import type { NotebookExercise } from "@/services/notebookStorage";
+
+const EMPTY_DETAILS = { statement: '', subQuestions: [], givenData: [], text: '' };
+
+// The page's exercise: read once when uploaded, then handed to the live analysis
+// (the chat gets it as a prop). Changes are reported so they can be saved.
+// A new `pageId` switches to that page's exercise.
+export function useExercise(
+  initialExercise: NotebookExercise | null | undefined,
+  onExerciseChange: (exercise: NotebookExercise | null) => void,
+  pageId?: string
+) {
+  const [exercise, setExercise] = useState<NotebookExercise | null>(initialExercise ?? null);
+  const [isReading, setIsReading] = useState(false);
+  // Ignore results for an image that has since been replaced or removed
+  const currentImageRef = useRef(exercise?.image ?? null);
+  const onExerciseChangeRef = useRef(onExerciseChange);
+  onExerciseChangeRef.current = onExerciseChange;
+
+  const [openPageId, setOpenPageId] = useState(pageId);
+  if (pageId !== openPageId) {
+    setOpenPageId(pageId);
+    setExercise(initialExercise ?? null);
+    setIsReading(false);
+    // A reading still under way belongs to the page that was left
+    currentImageRef.current = initialExercise?.image ?? null;
+  }
+
+  useEffect(() => {
+    canvasAnalysisService.setExercise(exercise);
+    return () => canvasAnalysisService.setExercise(null);
+  }, [exercise]);
+
+  const update = useCallback((next: NotebookExercise | null) => {
+    setExercise(next);
+    onExerciseChangeRef.current(next);
+  }, []);
+
+  const readExercise = useCallback(async (image: string) => {
+    currentImageRef.current = image;
+    setIsReading(true);
+
+    try {
+      const blob = await (await fetch(image)).blob();
+      const details = await ApiService.extractExercise(blob);
+      if (currentImageRef.current !== image) return;
+
+      update({ ...details, image });
+      if (!details.statement && details.subQuestions.length === 0) {
+        toast("No text found in the exercise image");
+      }
+    } catch (error) {
+      console.error('Failed to read exercise:', error);
+      if (currentImageRef.current === image) {
+        toast.error("Couldn't read the exercise");
+      }
+    } finally {
+      if (currentImageRef.current === image) setIsReading(false);
+    }
+  }, [update]);
+
+  const loadExercise = useCallback((image: string) => {
+    // Show the image straight away; the details follow once it has been read
+    update({ ...EMPTY_DETAILS, image });
+    readExercise(image);
+  }, [update, readExercise]);
+
+  const retry = useCallback(() => {
+    if (exercise) readExercise(exercise.image);
+  }, [exercise, readExercise]);
+
+  const clearExercise = useCallback(() => {
+    currentImageRef.current = null;
+    setIsReading(false);
+    update(null);
+  }, [update]);
+
+  return { exercise, isReading, loadExercise, retry, clearExercise };
+}
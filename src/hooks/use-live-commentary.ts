@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { canvasAnalysisService, LiveCommentary } from "@/services/canvasAnalysis";
+
+export type CommentaryRoute = 'panel' | 'chat' | 'both';
+
+const ROUTE_KEY = 'doodle-mentor:commentary-route';
+
+const loadRoute = (): CommentaryRoute => {
+  const stored = localStorage.getItem(ROUTE_KEY);
+  return stored === 'panel' || stored === 'chat' || stored === 'both' ? stored : 'panel';
+};
+
+// Receives live commentary from the canvas analysis and routes it to the
+// floating commentary panel, the chat, or both, as the student prefers
+export function useLiveCommentary(personality: 'calm' | 'angry' | 'cool' | 'lazy') {
+  const [route, setRouteState] = useState<CommentaryRoute>(loadRoute);
+  const [panelCommentary, setPanelCommentary] = useState<LiveCommentary[]>([]);
+  const [chatCommentary, setChatCommentary] = useState<LiveCommentary[]>([]);
+  const routeRef = useRef(route);
+  routeRef.current = route;
+
+  useEffect(() => {
+    canvasAnalysisService.setPersonality(personality);
+  }, [personality]);
+
+  useEffect(() => {
+    return canvasAnalysisService.on('commentary', (commentary) => {
+      if (routeRef.current !== 'chat') {
+        setPanelCommentary(prev => [...prev, commentary]);
+      }
+      if (routeRef.current !== 'panel') {
+        setChatCommentary(prev => [...prev, commentary]);
+      }
+    });
+  }, []);
+
+  const setRoute = useCallback((next: CommentaryRoute) => {
+    setRouteState(next);
+    localStorage.setItem(ROUTE_KEY, next);
+  }, []);
+
+  const clearPanel = useCallback(() => setPanelCommentary([]), []);
+
+  return { route, setRoute, panelCommentary, chatCommentary, clearPanel };
+}
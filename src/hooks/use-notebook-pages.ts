@@ -0,0 +1,92 @@
+import { useCallback, useRef, useState } from "react";
+import { createNotebookPage, getNotebookPages, type NotebookPage, type NotebookSession } from "@/services/notebookStorage";
+
+interface NotebookPagesState {
+  pages: NotebookPage[];
+  activePageId: string;
+}
+
+type NotebookPageChanges = Partial<Omit<NotebookPage, 'id'>>;
+
+// The notebook's pages and which one is open. Every change is reported so it can be saved.
+export function useNotebookPages(session: NotebookSession, onPagesChange: (state: NotebookPagesState) => void) {
+  const [state, setState] = useState<NotebookPagesState>(() => {
+    const pages = getNotebookPages(session);
+    const isSavedPage = pages.some(page => page.id === session.activePageId);
+    return { pages, activePageId: isSavedPage ? session.activePageId! : pages[0].id };
+  });
+  // Pages are edited from canvas callbacks as well as the page strip, so changes build on the latest state
+  const stateRef = useRef(state);
+  const onPagesChangeRef = useRef(onPagesChange);
+  onPagesChangeRef.current = onPagesChange;
+
+  const update = useCallback((next: NotebookPagesState) => {
+    stateRef.current = next;
+    setState(next);
+    onPagesChangeRef.current(next);
+  }, []);
+
+  const updatePage = useCallback((id: string, changes: NotebookPageChanges) => {
+    const { pages, activePageId } = stateRef.current;
+    update({ pages: pages.map(page => page.id === id ? { ...page, ...changes } : page), activePageId });
+  }, [update]);
+
+  const selectPage = useCallback((id: string) => {
+    update({ ...stateRef.current, activePageId: id });
+  }, [update]);
+
+  // New pages go right after the open one and are opened
+  const insertPage = useCallback((page: NotebookPage, afterId: string) => {
+    const pages = [...stateRef.current.pages];
+    pages.splice(pages.findIndex(existing => existing.id === afterId) + 1, 0, page);
+    update({ pages, activePageId: page.id });
+  }, [update]);
+
+  const addPage = useCallback(() => {
+    insertPage(createNotebookPage(), stateRef.current.activePageId);
+  }, [insertPage]);
+
+  const duplicatePage = useCallback((id: string) => {
+    const original = stateRef.current.pages.find(page => page.id === id);
+    if (!original) return;
+    insertPage({ ...structuredClone(original), id: crypto.randomUUID() }, id);
+  }, [insertPage]);
+
+  // `offset` is -1 to move the page one earlier, +1 one later
+  const movePage = useCallback((id: string, offset: number) => {
+    const { pages, activePageId } = stateRef.current;
+    const index = pages.findIndex(page => page.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= pages.length) return;
+
+    const next = [...pages];
+    const [page] = next.splice(index, 1);
+    next.splice(target, 0, page);
+    update({ pages: next, activePageId });
+  }, [update]);
+
+  // The last page can't be deleted. Deleting the open page opens its neighbour.
+  const deletePage = useCallback((id: string) => {
+    const { pages, activePageId } = stateRef.current;
+    const index = pages.findIndex(page => page.id === id);
+    if (index === -1 || pages.length === 1) return;
+
+    const next = pages.filter(page => page.id !== id);
+    const nextActiveId = id === activePageId ? next[Math.min(index, next.length - 1)].id : activePageId;
+    update({ pages: next, activePageId: nextActiveId });
+  }, [update]);
+
+  const activeIndex = Math.max(0, state.pages.findIndex(page => page.id === state.activePageId));
+
+  return {
+    pages: state.pages,
+    activePage: state.pages[activeIndex],
+    activePageNumber: activeIndex + 1,
+    selectPage,
+    addPage,
+    duplicatePage,
+    movePage,
+    deletePage,
+    updatePage,
+  };
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { notebookStorage, NotebookSession } from "@/services/notebookStorage";
+
+const AUTOSAVE_DELAY = 800;
+
+type NotebookSessionChanges = Partial<Omit<NotebookSession, 'id' | 'createdAt' | 'updatedAt'>>;
+
+// Loads a notebook session and autosaves changes to it (debounced)
+export function useNotebookSession(sessionId: string | undefined) {
+  const [session, setSession] = useState<NotebookSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const latestRef = useRef<NotebookSession | null>(null);
+  const isDirtyRef = useRef(false);
+  const saveTimeoutRef = useRef<number | null>(null);
+
+  const flush = useCallback(async () => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+    if (!latestRef.current || !isDirtyRef.current) return;
+
+    isDirtyRef.current = false;
+    setIsSaving(true);
+    try {
+      await notebookStorage.saveSession(latestRef.current);
+    } catch (error) {
+      console.error('Notebook autosave failed:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    notebookStorage.getSession(sessionId)
+      .then(loaded => {
+        if (cancelled) return;
+        latestRef.current = loaded;
+        isDirtyRef.current = false;
+        setSession(loaded);
+        if (loaded) {
+          notebookStorage.setLastSessionId(loaded.id);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to open notebook session:', error);
+        if (!cancelled) setSession(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [sessionId, flush]);
+
+  // Save pending changes before the tab goes away
+  useEffect(() => {
+    const handlePageHide = () => {
+      flush();
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, [flush]);
+
+  const saveChanges = useCallback((changes: NotebookSessionChanges) => {
+    if (!latestRef.current) return;
+
+    latestRef.current = { ...latestRef.current, ...changes };
+    isDirtyRef.current = true;
+
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = window.setTimeout(flush, AUTOSAVE_DELAY);
+  }, [flush]);
+
+  return { session, isLoading, isSaving, saveChanges };
+}
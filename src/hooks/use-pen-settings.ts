@@ -0,0 +1,38 @@
+import { useCallback, useState } from "react";
+
+export interface PenSettings {
+  // Pen pressure and tilt change the line width
+  pressure: boolean;
+  // Only a stylus draws; fingers (and resting palms) pan instead
+  penOnly: boolean;
+  // 0 (off) to 1 (strongest smoothing)
+  stabilizer: number;
+  // Strokes that look like lines, arrows or shapes are replaced by clean ones
+  smartInk: boolean;
+}
+
+const SETTINGS_KEY = 'doodle-mentor:pen-settings';
+const DEFAULT_SETTINGS: PenSettings = { pressure: true, penOnly: false, stabilizer: 0.2, smartInk: false };
+
+const loadSettings = (): PenSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Stylus preferences, kept for every notebook in this browser
+export function usePenSettings() {
+  const [settings, setSettings] = useState<PenSettings>(loadSettings);
+
+  const updateSettings = useCallback((changes: Partial<PenSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,118 @@
+// A small ASCII-math to LaTeX translator for typed math: enough for school algebra
+// ("x^2/3", "sqrt(b^2-4ac)", "a_1 <= pi/2"), not the full AsciiMath language
+
+const GREEK = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'theta', 'lambda', 'mu', 'pi', 'rho', 'sigma', 'tau', 'phi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Pi', 'Sigma', 'Phi', 'Omega',
+];
+const FUNCTIONS = ['sin', 'cos', 'tan', 'log', 'ln', 'exp'];
+
+const SYMBOLS: Record<string, string> = {
+  '<=': '\\le',
+  '>=': '\\ge',
+  '!=': '\\ne',
+  '+-': '\\pm',
+  '->': '\\to',
+  '*': '\\cdot',
+  'xx': '\\times',
+  '-:': '\\div',
+  'oo': '\\infty',
+  'infty': '\\infty',
+  '%': '\\%',
+  ...Object.fromEntries(GREEK.map(name => [name, `\\${name}`])),
+  ...Object.fromEntries(FUNCTIONS.map(name => [name, `\\${name}`])),
+};
+
+// Longest first, so "<=" wins over "<" and "sqrt" over "s"
+const WORDS = ['sqrt', 'abs', ...Object.keys(SYMBOLS)].sort((a, b) => b.length - a.length);
+const CLOSERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    const number = input.slice(i).match(/^\d+(\.\d+)?/);
+    const word = number ? null : WORDS.find(candidate => input.startsWith(candidate, i));
+    const token = number?.[0] ?? word ?? input[i];
+    tokens.push(token);
+    i += token.length;
+  }
+  return tokens;
+};
+
+// A parsed operand; `inner` is set for a bracketed group, whose brackets are dropped
+// when the group becomes a fraction part, an exponent or a function argument
+interface Operand {
+  latex: string;
+  inner?: string;
+}
+
+const unwrap = (operand: Operand) => operand.inner ?? operand.latex;
+
+export const asciiMathToLatex = (input: string): string => {
+  const tokens = tokenize(input);
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const parseSimple = (): Operand => {
+    const token = next();
+    if (token === undefined) return { latex: '' };
+
+    if (CLOSERS[token]) {
+      const closer = CLOSERS[token];
+      const inner = parseSequence(closer);
+      if (peek() === closer) next();
+      const [open, close] = token === '{' ? ['\\{', '\\}'] : [token, closer];
+      return { latex: `\\left${open}${inner}\\right${close}`, inner };
+    }
+    if (token === 'sqrt') return { latex: `\\sqrt{${unwrap(parseSimple())}}` };
+    if (token === 'abs') return { latex: `\\left|${unwrap(parseSimple())}\\right|` };
+    // A function keeps its argument, so "sin(x)/2" is a fraction of sin(x)
+    if (FUNCTIONS.includes(token)) return { latex: `${SYMBOLS[token]} ${parseSimple().latex}`.trim() };
+    // A signed exponent or index such as x^-2
+    if ((token === '-' || token === '+') && (tokens[position - 2] === '^' || tokens[position - 2] === '_')) {
+      return { latex: `${token}${parseSimple().latex}` };
+    }
+    return { latex: SYMBOLS[token] ?? token };
+  };
+
+  const parseScripts = (): Operand => {
+    const base = parseSimple();
+    let latex = base.latex;
+    let scripted = false;
+
+    for (const script of ['_', '^']) {
+      if (peek() === script) {
+        next();
+        latex += `${script}{${unwrap(parseSimple())}}`;
+        scripted = true;
+      }
+    }
+    return scripted ? { latex } : base;
+  };
+
+  const parseFraction = (): Operand => {
+    let operand = parseScripts();
+    while (peek() === '/' && operand.latex) {
+      next();
+      operand = { latex: `\\frac{${unwrap(operand)}}{${unwrap(parseScripts())}}` };
+    }
+    return operand;
+  };
+
+  const parseSequence = (closer?: string): string => {
+    const parts: string[] = [];
+    while (position < tokens.length && peek() !== closer) {
+      parts.push(parseFraction().latex);
+    }
+    return parts.join(' ');
+  };
+
+  return parseSequence();
+};
@@ -0,0 +1,92 @@
+import type { Canvas as FabricCanvas, FabricObject } from "fabric";
+import { getObjectBounds, getWorkObjects, unionBounds, type SceneBounds } from "@/lib/canvasObjects";
+
+// Roughly how much changed ink (in scene pixels) makes a change fully significant
+const SIGNIFICANT_INK = 150;
+
+export interface ObjectFingerprint {
+  bounds: SceneBounds;
+  signature: string;
+}
+
+export type CanvasFingerprint = Map<FabricObject, ObjectFingerprint>;
+
+export interface CanvasChange {
+  added: number;
+  removed: number;
+  modified: number;
+  // Scene area covering everything that changed (old and new positions)
+  region: SceneBounds | null;
+  // 0 (nothing) to 1 (plenty of new or changed work)
+  significance: number;
+}
+
+// Diagonal of the box, used as a cheap measure of how much ink an object holds
+const inkWeight = (bounds: SceneBounds) => Math.hypot(bounds.right - bounds.left, bounds.bottom - bounds.top);
+
+// Everything that affects what the object looks like, rounded so sub-pixel noise doesn't count
+const getSignature = (obj: FabricObject) => {
+  const { text, path } = obj as FabricObject & { text?: string; path?: unknown[] };
+  return JSON.stringify([
+    obj.type,
+    Math.round(obj.left),
+    Math.round(obj.top),
+    Math.round(obj.width * obj.scaleX),
+    Math.round(obj.height * obj.scaleY),
+    Math.round(obj.angle),
+    obj.stroke,
+    obj.fill,
+    obj.strokeWidth,
+    obj.opacity,
+    text,
+    path?.length,
+  ]);
+};
+
+// Snapshot of the analysable content: visible, exported objects (no grid, helper overlays
+// or exercise background, which the tutor already has as text)
+export const fingerprintCanvas = (canvas: FabricCanvas): CanvasFingerprint => {
+  return new Map(
+    getWorkObjects(canvas)
+      .filter(obj => obj.visible && !obj.excludeFromExport)
+      .map(obj => [obj, { bounds: getObjectBounds(obj), signature: getSignature(obj) }])
+  );
+};
+
+export const diffCanvas = (previous: CanvasFingerprint, current: CanvasFingerprint): CanvasChange => {
+  let added = 0;
+  let removed = 0;
+  let modified = 0;
+  let region: SceneBounds | null = null;
+  let ink = 0;
+
+  current.forEach((fingerprint, obj) => {
+    const before = previous.get(obj);
+    if (!before) {
+      added++;
+    } else if (before.signature !== fingerprint.signature) {
+      modified++;
+      region = unionBounds(region, before.bounds);
+      ink += inkWeight(before.bounds);
+    } else {
+      return;
+    }
+    region = unionBounds(region, fingerprint.bounds);
+    ink += inkWeight(fingerprint.bounds);
+  });
+
+  previous.forEach((fingerprint, obj) => {
+    if (current.has(obj)) return;
+    removed++;
+    region = unionBounds(region, fingerprint.bounds);
+    ink += inkWeight(fingerprint.bounds);
+  });
+
+  return {
+    added,
+    removed,
+    modified,
+    region,
+    significance: Math.min(1, ink / SIGNIFICANT_INK),
+  };
+};
@@ -0,0 +1,125 @@
+import { Path, util, type Canvas as FabricCanvas, type FabricObject, type Point } from "fabric";
+import { getContentObjects, getUndoableObjects, isBackgroundObject, isTutorAnnotation } from "@/lib/canvasObjects";
+import { getObjectLayer, setObjectLayer } from "@/lib/canvasLayers";
+import { PressurePath } from "@/lib/pressureBrush";
+import {
+  createReplaceCommand,
+  type CanvasCommand,
+  type IndexedObject,
+} from "@/services/canvasHistory";
+import {
+  densifyPolyline,
+  getAverageScale,
+  getPathScenePoints,
+  hitTestObject,
+  polylineIntersectsSegment,
+  splitPolylineBySegment,
+} from "@/lib/strokeGeometry";
+
+// The exercise background is never erased; it is replaced or removed through the upload.
+// Tutor marks are dismissed instead.
+const isErasable = (obj: FabricObject) => obj.visible && !isBackgroundObject(obj) && !isTutorAnnotation(obj);
+
+// Build a new stroke from part of an erased one, keeping its look
+const createFragment = (source: Path, points: Point[], strokeWidth: number): Path => {
+  const fragment = new Path(util.getSmoothPathFromPoints(points), {
+    stroke: source.stroke,
+    strokeWidth,
+    strokeLineCap: source.strokeLineCap,
+    strokeLineJoin: source.strokeLineJoin,
+    strokeDashArray: source.strokeDashArray,
+    opacity: source.opacity,
+    fill: null,
+  });
+  setObjectLayer(fragment, getObjectLayer(source));
+  return fragment;
+};
+
+// Erases only the parts of freehand strokes the eraser passes over. One
+// session covers a single drag and produces a single undo step. `canErase` can
+// protect further objects, e.g. those on locked layers.
+export class StrokeEraserSession {
+  private startEntries: Map<FabricObject, number>;
+  private removed: IndexedObject[] = [];
+  private added = new Set<FabricObject>();
+
+  constructor(
+    private readonly canvas: FabricCanvas,
+    private readonly radius: number,
+    private readonly canErase: (obj: FabricObject) => boolean = () => true
+  ) {
+    this.startEntries = new Map(getUndoableObjects(canvas).map((obj, index) => [obj, index]));
+  }
+
+  eraseSegment(from: Point, to: Point) {
+    const step = Math.max(this.radius / 2, 0.5);
+    let changed = false;
+
+    for (const obj of getContentObjects(this.canvas)) {
+      if (!(obj instanceof Path) || !isErasable(obj) || !this.canErase(obj)) continue;
+
+      const strokeWidth = (obj.strokeWidth || 0) * getAverageScale(obj);
+      const reach = this.radius + strokeWidth / 2;
+      const points = getPathScenePoints(obj);
+      if (!polylineIntersectsSegment(points, from, to, reach)) continue;
+
+      const runs = splitPolylineBySegment(densifyPolyline(points, step), from, to, reach);
+      // What is left of a pressure stroke keeps its average width
+      const fragmentWidth = obj instanceof PressurePath ? strokeWidth * obj.getAverageWidth() : strokeWidth;
+      const fragments = runs.map(run => createFragment(obj, run, fragmentWidth));
+      const index = this.canvas.getObjects().indexOf(obj);
+
+      this.canvas.remove(obj);
+      fragments.forEach((fragment, i) => this.canvas.insertAt(index + i, fragment));
+      this.forget(obj);
+      fragments.forEach(fragment => this.added.add(fragment));
+      changed = true;
+    }
+
+    if (changed) this.canvas.requestRenderAll();
+  }
+
+  finish(): CanvasCommand | null {
+    if (this.removed.length === 0 && this.added.size === 0) return null;
+    return createReplaceCommand(this.canvas, this.removed, [...this.added], 'Erase');
+  }
+
+  // Fragments created earlier in the drag are simply dropped; originals are remembered for undo
+  private forget(obj: FabricObject) {
+    if (this.added.delete(obj)) return;
+
+    const index = this.startEntries.get(obj);
+    if (index !== undefined) this.removed.push({ obj, index });
+  }
+}
+
+// Removes whole objects touched by the eraser, tested against their actual strokes
+export class ObjectEraserSession {
+  private startEntries: Map<FabricObject, number>;
+  private removed: IndexedObject[] = [];
+
+  constructor(
+    private readonly canvas: FabricCanvas,
+    private readonly tolerance: number,
+    private readonly canErase: (obj: FabricObject) => boolean = () => true
+  ) {
+    this.startEntries = new Map(getUndoableObjects(canvas).map((obj, index) => [obj, index]));
+  }
+
+  eraseAt(point: Point) {
+    const hits = getContentObjects(this.canvas)
+      .filter(obj => isErasable(obj) && this.canErase(obj) && hitTestObject(obj, point, this.tolerance));
+    if (hits.length === 0) return;
+
+    hits.forEach(obj => {
+      this.removed.push({ obj, index: this.startEntries.get(obj) ?? 0 });
+      this.canvas.remove(obj);
+    });
+    this.canvas.requestRenderAll();
+  }
+
+  finish(): CanvasCommand | null {
+    if (this.removed.length === 0) return null;
+    return createReplaceCommand(this.canvas, this.removed, [], 'Erase objects');
+  }
+}
@@ -0,0 +1,109 @@
+import type { Canvas as FabricCanvas, FabricObject } from "fabric";
+import { getContentObjects, isBackgroundObject, isGridLine } from "@/lib/canvasObjects";
+
+export type LayerId = 'background' | 'work' | 'annotations' | 'tutor';
+
+export interface CanvasLayer {
+  id: LayerId;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+}
+
+// Bottom to top. The grid is not a layer: it always sits underneath all of them.
+export const DEFAULT_LAYERS: CanvasLayer[] = [
+  { id: 'background', name: 'Exercise', visible: true, locked: false, opacity: 1 },
+  { id: 'work', name: 'Work', visible: true, locked: false, opacity: 1 },
+  { id: 'annotations', name: 'Annotations', visible: true, locked: false, opacity: 1 },
+  { id: 'tutor', name: 'Tutor', visible: true, locked: false, opacity: 1 },
+];
+
+// The tutor layer belongs to the AI; students can hide or lock it but not draw on it
+export const isDrawableLayer = (id: LayerId) => id !== 'tutor';
+
+type LayeredObject = FabricObject & { layer?: LayerId };
+
+// Objects saved before layers existed belong to the work layer (or the background, for the exercise)
+export const getObjectLayer = (obj: FabricObject): LayerId => {
+  return (obj as LayeredObject).layer ?? (isBackgroundObject(obj) ? 'background' : 'work');
+};
+
+export const setObjectLayer = (obj: FabricObject, id: LayerId) => {
+  (obj as LayeredObject).layer = id;
+};
+
+export const findLayer = (layers: CanvasLayer[], id: LayerId): CanvasLayer => {
+  return layers.find(layer => layer.id === id) ?? DEFAULT_LAYERS.find(layer => layer.id === id)!;
+};
+
+// Whether objects on the layer can be drawn on, erased or cleared
+export const isLayerEditable = (layers: CanvasLayer[], id: LayerId) => {
+  const layer = findLayer(layers, id);
+  return layer.visible && !layer.locked;
+};
+
+// Saved layer settings in their saved order, with any missing layers added in their default spot
+export const normalizeLayers = (saved?: CanvasLayer[]): CanvasLayer[] => {
+  const known = (saved ?? []).filter(layer => DEFAULT_LAYERS.some(({ id }) => id === layer.id));
+  // Names always come from the defaults
+  const layers = DEFAULT_LAYERS.map(layer => ({ ...layer, ...known.find(({ id }) => id === layer.id), name: layer.name }));
+  if (known.length === 0) return layers;
+
+  const position = (id: LayerId) => {
+    const index = known.findIndex(layer => layer.id === id);
+    return index === -1 ? DEFAULT_LAYERS.findIndex(layer => layer.id === id) - 0.5 : index;
+  };
+  return layers.sort((a, b) => position(a.id) - position(b.id));
+};
+
+// Order the canvas so each layer's objects sit together, keeping their order within the layer
+export const stackByLayer = (canvas: FabricCanvas, layers: CanvasLayer[]) => {
+  const rank = (obj: FabricObject) => layers.findIndex(layer => layer.id === getObjectLayer(obj));
+  const content = getContentObjects(canvas);
+  const sorted = [...content].sort((a, b) => rank(a) - rank(b));
+  if (sorted.every((obj, i) => obj === content[i])) return;
+
+  const gridCount = canvas.getObjects().filter(isGridLine).length;
+  sorted.forEach((obj, i) => canvas.moveObjectTo(obj, gridCount + i));
+};
+
+// Show, fade and lock objects according to their layer. Locked layers can't be picked or
+// dragged; unlocked ones are left to the active tool.
+export const applyLayers = (canvas: FabricCanvas, layers: CanvasLayer[]) => {
+  getContentObjects(canvas).forEach(obj => {
+    const layer = findLayer(layers, getObjectLayer(obj));
+    obj.set({ visible: layer.visible, opacity: layer.opacity });
+    if (layer.locked) {
+      obj.set({ selectable: false, evented: false });
+    }
+  });
+  stackByLayer(canvas, layers);
+  canvas.requestRenderAll();
+};
+
+// Canvas index that puts an object on top of its layer. `exclude` is left out of the
+// count, for moving an object that is already on the canvas.
+export const getLayerInsertIndex = (canvas: FabricCanvas, layers: CanvasLayer[], id: LayerId, exclude?: FabricObject) => {
+  const rank = (layerId: LayerId) => layers.findIndex(layer => layer.id === layerId);
+  const objects = canvas.getObjects().filter(obj => obj !== exclude);
+  let index = objects.filter(isGridLine).length;
+  objects.forEach((obj, i) => {
+    if (!isGridLine(obj) && rank(getObjectLayer(obj)) <= rank(id)) {
+      index = i + 1;
+    }
+  });
+  return index;
+};
+
+// Put a freshly created object on the given layer, at the top of it
+export const placeOnLayer = (canvas: FabricCanvas, layers: CanvasLayer[], obj: FabricObject, id: LayerId) => {
+  setObjectLayer(obj, id);
+  obj.set({ opacity: findLayer(layers, id).opacity });
+
+  if (canvas.getObjects().includes(obj)) {
+    canvas.moveObjectTo(obj, getLayerInsertIndex(canvas, layers, id, obj));
+  } else {
+    canvas.insertAt(getLayerInsertIndex(canvas, layers, id), obj);
+  }
+};
@@ -0,0 +1,243 @@
+import { FabricImage, Line, util, type Canvas as FabricCanvas, type FabricObject } from "fabric";
+import type { NotebookCanvasData } from "@/services/notebookStorage";
+import type { CanvasLayer } from "@/lib/canvasLayers";
+// Registers pressure strokes so saved ones can be loaded
+import "@/lib/pressureBrush";
+
+export const GRID_LINE_NAME = 'grid-line';
+export const BACKGROUND_NAME = 'exercise-background';
+export const TUTOR_ANNOTATION_NAME = 'tutor-annotation';
+const GRID_SIZE = 20;
+const GRID_COLOR = "#f3f4f6";
+// Below this on-screen spacing the grid is thinned out so zooming out stays cheap
+const MIN_GRID_SPACING = 10;
+
+export const isGridLine = (obj: FabricObject): boolean => {
+  return (obj as FabricObject & { name?: string }).name === GRID_LINE_NAME;
+};
+
+// The uploaded exercise image the student works on top of
+export const isBackgroundObject = (obj: FabricObject): boolean => {
+  return (obj as FabricObject & { name?: string }).name === BACKGROUND_NAME;
+};
+
+// A mark the tutor put on the page that the student hasn't accepted yet
+export const isTutorAnnotation = (obj: FabricObject): boolean => {
+  return (obj as FabricObject & { name?: string }).name === TUTOR_ANNOTATION_NAME;
+};
+
+// A tutor mark the student accepted, wherever it has been moved since
+export const isAcceptedTutorMark = (obj: FabricObject): boolean => {
+  return (obj as FabricObject & { tutorMark?: boolean }).tutorMark === true;
+};
+
+// Everything the student put on the canvas, in stacking order
+export const getContentObjects = (canvas: FabricCanvas): FabricObject[] => {
+  return canvas.getObjects().filter(obj => !isGridLine(obj));
+};
+
+// The content undo/redo puts back in place. The exercise background comes and goes with the
+// exercise rather than through history, so it is left out and can't shift the positions.
+export const getUndoableObjects = (canvas: FabricCanvas): FabricObject[] => {
+  return getContentObjects(canvas).filter(obj => !isBackgroundObject(obj));
+};
+
+// The student's own work: the content without the exercise background and the tutor's marks
+export const getWorkObjects = (canvas: FabricCanvas): FabricObject[] => {
+  return getContentObjects(canvas).filter(obj => !isBackgroundObject(obj) && !isTutorAnnotation(obj));
+};
+
+export const getBackgroundObject = (canvas: FabricCanvas): FabricObject | undefined => {
+  return getContentObjects(canvas).find(isBackgroundObject);
+};
+
+// The background is locked unless the student is explicitly moving it
+export const setBackgroundEditable = (obj: FabricObject, editable: boolean) => {
+  obj.set({
+    selectable: editable,
+    evented: editable,
+    hasControls: editable,
+    hasBorders: editable,
+    lockMovementX: !editable,
+    lockMovementY: !editable,
+    hoverCursor: editable ? 'move' : 'default',
+  });
+};
+
+// Load the exercise image and fit it into the visible part of the canvas
+export const createBackgroundImage = async (canvas: FabricCanvas, src: string): Promise<FabricImage> => {
+  const image = await FabricImage.fromURL(src);
+  const { tl, br } = canvas.calcViewportBoundaries();
+  const margin = 20 / canvas.getZoom();
+  const scale = Math.min(1, (br.x - tl.x - 2 * margin) / image.width, (br.y - tl.y - 2 * margin) / image.height);
+
+  image.set({
+    name: BACKGROUND_NAME,
+    left: tl.x + margin,
+    top: tl.y + margin,
+    scaleX: scale,
+    scaleY: scale,
+  });
+  setBackgroundEditable(image, false);
+  return image;
+};
+
+// Serialize the student's work, leaving out the grid and other helper objects
+export const serializeCanvasContent = (canvas: FabricCanvas, layers?: CanvasLayer[]): NotebookCanvasData => ({
+  objects: getContentObjects(canvas)
+    .filter(obj => !obj.excludeFromExport)
+    .map(obj => obj.toObject(['name', 'layer', 'math', 'tutorMark'])),
+  background: typeof canvas.backgroundColor === 'string' ? canvas.backgroundColor : undefined,
+  layers,
+});
+
+// Replace the current content with saved objects; the grid is kept as is
+export const loadCanvasContent = async (canvas: FabricCanvas, data: NotebookCanvasData) => {
+  const objects = await util.enlivenObjects<FabricObject>(data.objects);
+  objects.filter(isBackgroundObject).forEach(obj => setBackgroundEditable(obj, false));
+
+  getContentObjects(canvas).forEach(obj => canvas.remove(obj));
+  if (objects.length > 0) {
+    canvas.add(...objects);
+  }
+  if (data.background) {
+    canvas.backgroundColor = data.background;
+  }
+  canvas.requestRenderAll();
+};
+
+export interface SceneBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const unionBounds = (a: SceneBounds | null, b: SceneBounds): SceneBounds => {
+  if (!a) return b;
+  return {
+    left: Math.min(a.left, b.left),
+    top: Math.min(a.top, b.top),
+    right: Math.max(a.right, b.right),
+    bottom: Math.max(a.bottom, b.bottom),
+  };
+};
+
+export const expandBounds = (bounds: SceneBounds, margin: number): SceneBounds => ({
+  left: bounds.left - margin,
+  top: bounds.top - margin,
+  right: bounds.right + margin,
+  bottom: bounds.bottom + margin,
+});
+
+export const boundsIntersect = (a: SceneBounds, b: SceneBounds): boolean => {
+  return a.left <= b.right && b.left <= a.right && a.top <= b.bottom && b.top <= a.bottom;
+};
+
+export const getObjectBounds = (obj: FabricObject): SceneBounds => {
+  const rect = obj.getBoundingRect();
+  return { left: rect.left, top: rect.top, right: rect.left + rect.width, bottom: rect.top + rect.height };
+};
+
+// Grid lines covering the given scene area, with a constant on-screen width at any zoom
+export const createGridLines = (bounds: SceneBounds, zoom = 1): Line[] => {
+  let step = GRID_SIZE;
+  while (step * zoom < MIN_GRID_SPACING) {
+    step *= 2;
+  }
+
+  const options = {
+    stroke: GRID_COLOR,
+    strokeWidth: 0.5 / zoom,
+    selectable: false,
+    evented: false,
+    excludeFromExport: true,
+    objectCaching: false,
+    name: GRID_LINE_NAME,
+  };
+
+  const lines: Line[] = [];
+  for (let x = Math.floor(bounds.left / step) * step; x <= bounds.right; x += step) {
+    lines.push(new Line([x, bounds.top, x, bounds.bottom], options));
+  }
+  for (let y = Math.floor(bounds.top / step) * step; y <= bounds.bottom; y += step) {
+    lines.push(new Line([bounds.left, y, bounds.right, y], options));
+  }
+  return lines;
+};
+
+// Scene area covered by the visible content, or null for an empty canvas.
+// With `within`, only content touching that area counts; `except` leaves objects out.
+export const getContentBounds = (
+  canvas: FabricCanvas,
+  within?: SceneBounds,
+  { includeBackground = true, except }: { includeBackground?: boolean; except?: (obj: FabricObject) => boolean } = {}
+): SceneBounds | null => {
+  return (includeBackground ? getContentObjects(canvas) : getWorkObjects(canvas))
+    .filter(obj => obj.visible && !isTutorAnnotation(obj) && !except?.(obj))
+    .map(getObjectBounds)
+    .filter(bounds => !within || boundsIntersect(bounds, within))
+    .reduce<SceneBounds | null>(unionBounds, null);
+};
+
+// Draw part of the scene at `scale` onto a new canvas element, whatever the current pan/zoom
+export const renderRegion = (
+  canvas: FabricCanvas,
+  bounds: SceneBounds,
+  scale: number,
+  filter: (obj: FabricObject) => boolean
+): HTMLCanvasElement => {
+  const zoom = canvas.getZoom();
+  const vpt = canvas.viewportTransform;
+
+  // toCanvasElement takes the crop in viewport pixels
+  return canvas.toCanvasElement(scale / zoom, {
+    left: bounds.left * zoom + vpt[4],
+    top: bounds.top * zoom + vpt[5],
+    width: (bounds.right - bounds.left) * zoom,
+    height: (bounds.bottom - bounds.top) * zoom,
+    filter: obj => filter(obj as FabricObject),
+  });
+};
+
+// Render part of the scene to a PNG, independent of the current pan/zoom and without the
+// grid or the tutor's marks. `only` limits it to the given objects; `except` leaves objects out.
+export const exportRegionImage = (
+  canvas: FabricCanvas,
+  bounds: SceneBounds,
+  {
+    maxSize = 1600,
+    includeBackground = true,
+    only,
+    except,
+  }: { maxSize?: number; includeBackground?: boolean; only?: FabricObject[]; except?: (obj: FabricObject) => boolean } = {}
+): Promise<Blob | null> => {
+  const scale = Math.min(1, maxSize / Math.max(bounds.right - bounds.left, bounds.bottom - bounds.top));
+  const element = renderRegion(canvas, bounds, scale, obj => !isGridLine(obj)
+    && !isTutorAnnotation(obj)
+    && (includeBackground || !isBackgroundObject(obj))
+    && (!only || only.includes(obj))
+    && !except?.(obj));
+
+  return new Promise(resolve => element.toBlob(blob => resolve(blob), 'image/png'));
+};
+
+// Small picture of the whole page, not just the part in view, as a PNG data URL.
+// Only saved content is drawn: no grid, tutor marks or previews.
+export const renderThumbnail = (canvas: FabricCanvas, size = 160): string => {
+  const page = getContentBounds(canvas) ?? { left: 0, top: 0, right: canvas.getWidth(), bottom: canvas.getHeight() };
+  const bounds = expandBounds(page, 20);
+  const scale = size / Math.max(bounds.right - bounds.left, bounds.bottom - bounds.top);
+
+  return renderRegion(canvas, bounds, scale, obj => !obj.excludeFromExport).toDataURL('image/png');
+};
+
+// Render the student's work to a PNG cropped to the content. Resolves to null for an empty canvas.
+export const exportContentImage = (
+  canvas: FabricCanvas,
+  { padding = 20, maxSize = 1600, includeBackground = true } = {}
+): Promise<Blob | null> => {
+  const bounds = getContentBounds(canvas, undefined, { includeBackground });
+  if (!bounds) return Promise.resolve(null);
+  return exportRegionImage(canvas, expandBounds(bounds, padding), { maxSize, includeBackground });
+};
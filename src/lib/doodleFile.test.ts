@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { readDoodleFile, writeDoodleFile, type DoodleNotebook } from './doodleFile';
+
+const message = { id: '1', content: 'Hi!', isUser: true, timestamp: '2024-05-01T10:00:00.000Z' };
+
+// A .doodle zip with the given manifest fields, chat.json contents and other files
+const makeDoodleFile = async (manifest: Record<string, unknown>, chat: unknown, files: Record<string, string> = {}) => {
+  const zip = new JSZip();
+  zip.file('notebook.json', JSON.stringify({
+    format: 'doodle',
+    version: 1,
+    exportedAt: '2024-05-01T10:00:00.000Z',
+    name: 'Algebra',
+    personality: 'cool',
+    activePage: 0,
+    pages: [{ canvas: null, exercise: null }],
+    chat: 'chat.json',
+    ...manifest,
+  }));
+  zip.file('chat.json', JSON.stringify(chat));
+  Object.entries(files).forEach(([path, contents]) => zip.file(path, contents));
+  return new File([await zip.generateAsync({ type: 'uint8array' })], 'algebra.doodle');
+};
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const JPEG = 'data:image/jpeg;base64,/9j/4AAQ';
+
+describe('writeDoodleFile', () => {
+  const notebook: DoodleNotebook = {
+    name: 'Algebra',
+    personality: 'lazy',
+    pages: [
+      {
+        id: 'page-1',
+        canvas: {
+          version: '6.7.1',
+          objects: [
+            { type: 'Image', src: PNG },
+            { type: 'Sparkle' },
+            { type: 'Group', objects: [{ type: 'Rect', fill: 'red' }, { type: 'Sparkle' }] },
+          ],
+          layers: [{ id: 'work', name: 'Work', visible: true, locked: false, opacity: 1 }],
+        },
+        exercise: { statement: 'Solve for x', subQuestions: [], givenData: [], text: 'Solve for x', image: PNG },
+        thumbnail: JPEG,
+      },
+      { id: 'page-2', canvas: { objects: [{ type: 'Rect', fill: 'blue' }] }, exercise: null },
+    ],
+    activePageId: 'page-2',
+    messages: [message],
+  };
+
+  it('stores each image once, under images/', async () => {
+    const zip = await JSZip.loadAsync(await writeDoodleFile(notebook));
+
+    expect(zip.file(/^images\//).map(file => file.name).sort()).toEqual(['images/1.png', 'images/2.jpg']);
+  });
+
+  it('reads back what it wrote, without object types it does not know', async () => {
+    const file = new File([await writeDoodleFile(notebook)], 'algebra.doodle');
+
+    const imported = await readDoodleFile(file);
+
+    expect(imported.name).toBe('Algebra');
+    expect(imported.personality).toBe('lazy');
+    expect(imported.messages).toEqual([message]);
+    expect(imported.pages).toHaveLength(2);
+    expect(imported.pages.map(page => page.id)).not.toContain('page-1');
+    expect(imported.activePageId).toBe(imported.pages[1].id);
+
+    const [first, second] = imported.pages;
+    expect(first.canvas?.objects).toEqual([
+      { type: 'Image', src: PNG },
+      { type: 'Group', objects: [{ type: 'Rect', fill: 'red' }] },
+    ]);
+    expect(first.canvas?.layers).toEqual(notebook.pages[0].canvas?.layers);
+    expect(first.exercise).toEqual(notebook.pages[0].exercise);
+    expect(first.thumbnail).toBe(JPEG);
+    expect(second.canvas?.objects).toEqual([{ type: 'Rect', fill: 'blue' }]);
+    expect(second.exercise).toBeNull();
+  });
+});
+
+describe('readDoodleFile', () => {
+  it('reads a notebook file', async () => {
+    const notebook = await readDoodleFile(await makeDoodleFile({}, [message]));
+
+    expect(notebook.name).toBe('Algebra');
+    expect(notebook.personality).toBe('cool');
+    expect(notebook.pages).toHaveLength(1);
+    expect(notebook.activePageId).toBe(notebook.pages[0].id);
+    expect(notebook.messages).toEqual([message]);
+  });
+
+  it.each([0, -1, 0.5, '1'])('refuses file version %j', async version => {
+    const file = await makeDoodleFile({ version }, []);
+
+    await expect(readDoodleFile(file)).rejects.toThrow('Failed to read notebook file');
+  });
+
+  it('refuses a chat that is not a list of messages', async () => {
+    const file = await makeDoodleFile({}, { messages: [message] });
+
+    await expect(readDoodleFile(file)).rejects.toThrow('Failed to read notebook file');
+  });
+
+  it('falls back to defaults for malformed notebook details', async () => {
+    const file = await makeDoodleFile(
+      { name: { text: 'Algebra' }, personality: 'grumpy', activePage: 'first' },
+      [message, { id: 2, content: 'No timestamp' }, null, 'Hello']
+    );
+
+    const notebook = await readDoodleFile(file);
+
+    expect(notebook.name).toBe('Imported notebook');
+    expect(notebook.personality).toBe('calm');
+    expect(notebook.activePageId).toBe(notebook.pages[0].id);
+    expect(notebook.messages).toEqual([message]);
+  });
+
+  it('leaves out images that are not in the file', async () => {
+    const remote = 'https://example.com/pixel.png';
+    const objects = [
+      { type: 'Image', src: remote },
+      { type: 'Image', src: 'images/1.png' },
+      { type: 'Rect', fill: { type: 'pattern', source: remote } },
+      { type: 'Rect', fill: 'red' },
+    ];
+    const file = await makeDoodleFile(
+      { pages: [{ canvas: 'pages/1.json', exercise: { image: remote, problem: 'Solve' }, thumbnail: remote }] },
+      [],
+      { 'pages/1.json': JSON.stringify({ objects, backgroundImage: { type: 'Image', src: remote } }), 'images/1.png': 'png' }
+    );
+
+    const [page] = (await readDoodleFile(file)).pages;
+
+    expect(page.canvas?.objects).toEqual([
+      { type: 'Image', src: 'data:image/png;base64,cG5n' },
+      { type: 'Rect', fill: 'red' },
+    ]);
+    expect(page.canvas).not.toHaveProperty('backgroundImage');
+    expect(page.exercise).toBeNull();
+    expect(page.thumbnail).toBeUndefined();
+  });
+});
@@ -0,0 +1,292 @@
+import JSZip from "jszip";
+import { classRegistry } from "fabric";
+import {
+  NOTEBOOK_PERSONALITIES,
+  type NotebookCanvasData,
+  type NotebookExercise,
+  type NotebookMessage,
+  type NotebookPage,
+  type NotebookPersonality,
+} from "@/services/notebookStorage";
+
+// Bump when the file layout or the canvas objects saved in it change, and add a migration from
+// the previous version below so older files keep opening
+export const DOODLE_FILE_VERSION = 1;
+export const DOODLE_FILE_EXTENSION = '.doodle';
+
+const MANIFEST_PATH = 'notebook.json';
+const CHAT_PATH = 'chat.json';
+const IMAGE_FOLDER = 'images/';
+
+// What a .doodle file holds, and what importing one gives back
+export interface DoodleNotebook {
+  name: string;
+  personality: NotebookPersonality;
+  pages: NotebookPage[];
+  activePageId?: string;
+  messages: NotebookMessage[];
+}
+
+// notebook.json. Canvases, images and the chat are separate files in the zip, referenced by path.
+interface DoodleManifest {
+  format: 'doodle';
+  version: number;
+  exportedAt: string;
+  name: string;
+  personality: NotebookPersonality;
+  // Index of the page that was open
+  activePage: number;
+  pages: {
+    canvas: string | null;
+    exercise: NotebookExercise | null;
+    thumbnail?: string;
+  }[];
+  chat: string;
+}
+
+// A file's contents read back in with images inlined, at the version the file was written with
+interface DoodleDocument {
+  version: number;
+  name: string;
+  personality: NotebookPersonality;
+  activePage: number;
+  pages: Omit<NotebookPage, 'id'>[];
+  messages: NotebookMessage[];
+}
+
+// Upgrades a document from the version in the key to the next one, e.g. renaming an object type
+// or filling in a new property with `mapCanvasObjects`. Every step runs in order on import.
+const MIGRATIONS: Record<number, (document: DoodleDocument) => DoodleDocument> = {};
+
+type CanvasObjectData = Record<string, unknown>;
+
+// Apply `map` to every object on a canvas, groups included; returning null removes the object
+const mapCanvasObjects = (
+  objects: CanvasObjectData[],
+  map: (obj: CanvasObjectData) => CanvasObjectData | null
+): CanvasObjectData[] =>
+  objects.flatMap(obj => {
+    const mapped = map(obj);
+    if (!mapped) return [];
+    return Array.isArray(mapped.objects)
+      ? [{ ...mapped, objects: mapCanvasObjects(mapped.objects as CanvasObjectData[], map) }]
+      : [mapped];
+  });
+
+const mapCanvas = (canvas: NotebookCanvasData | null, map: (obj: CanvasObjectData) => CanvasObjectData | null) =>
+  canvas && { ...canvas, objects: mapCanvasObjects(canvas.objects, map) };
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+const getImageType = (path: string) =>
+  Object.keys(IMAGE_EXTENSIONS).find(type => path.endsWith(`.${IMAGE_EXTENSIONS[type]}`)) ?? 'application/octet-stream';
+
+// Data URL images are stored once each under images/, and replaced by their path
+const createImageWriter = (zip: JSZip) => {
+  const paths = new Map<string, string>();
+
+  return (dataUrl: string) => {
+    const match = /^data:([^;,]+)((?:;[^;,]+)*),(.*)$/s.exec(dataUrl);
+    if (!match) return dataUrl;
+    const existing = paths.get(dataUrl);
+    if (existing) return existing;
+
+    const [, type, params, data] = match;
+    const path = `${IMAGE_FOLDER}${paths.size + 1}.${IMAGE_EXTENSIONS[type] ?? 'bin'}`;
+    if (params.includes(';base64')) {
+      zip.file(path, data, { base64: true });
+    } else {
+      zip.file(path, decodeURIComponent(data));
+    }
+    paths.set(dataUrl, path);
+    return path;
+  };
+};
+
+const readImages = async (zip: JSZip) => {
+  const images = new Map<string, string>();
+  const files = zip.file(new RegExp(`^${IMAGE_FOLDER}`));
+  await Promise.all(files.map(async file => {
+    images.set(file.name, `data:${getImageType(file.name)};base64,${await file.async('base64')}`);
+  }));
+  return images;
+};
+
+// Images must come with the file. A link elsewhere would be fetched when the notebook opens,
+// and an image from another site stops the canvas from being exported or read.
+const isEmbeddedImage = (url: unknown): url is string => typeof url === 'string' && /^data:image\//i.test(url);
+
+// Image sources an object loads: its own, and those of pattern fills and strokes
+const getImageSources = (obj: CanvasObjectData) => [
+  obj.src,
+  (obj.fill as CanvasObjectData | null)?.source,
+  (obj.stroke as CanvasObjectData | null)?.source,
+].filter(source => source !== undefined);
+
+const readJson = async <T>(zip: JSZip, path: string): Promise<T> => {
+  const file = zip.file(path);
+  if (!file) {
+    throw new Error(`Missing ${path}`);
+  }
+  return JSON.parse(await file.async('string'));
+};
+
+export const writeDoodleFile = async (notebook: DoodleNotebook): Promise<Blob> => {
+  const zip = new JSZip();
+  const writeImage = createImageWriter(zip);
+
+  const pages = notebook.pages.map((page, index) => {
+    let canvas: string | null = null;
+    if (page.canvas) {
+      canvas = `pages/${index + 1}.json`;
+      const data = mapCanvas(page.canvas, obj => typeof obj.src === 'string' ? { ...obj, src: writeImage(obj.src) } : obj);
+      zip.file(canvas, JSON.stringify(data));
+    }
+
+    return {
+      canvas,
+      exercise: page.exercise ? { ...page.exercise, image: writeImage(page.exercise.image) } : null,
+      thumbnail: page.thumbnail && writeImage(page.thumbnail),
+    };
+  });
+  zip.file(CHAT_PATH, JSON.stringify(notebook.messages));
+
+  const manifest: DoodleManifest = {
+    format: 'doodle',
+    version: DOODLE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: notebook.name,
+    personality: notebook.personality,
+    activePage: Math.max(0, notebook.pages.findIndex(page => page.id === notebook.activePageId)),
+    pages,
+    chat: CHAT_PATH,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip', compression: 'DEFLATE' });
+};
+
+// The fields every stored message needs; anything else about it is optional
+const isNotebookMessage = (message: unknown): message is NotebookMessage => {
+  if (!message || typeof message !== 'object') return false;
+  const { id, content, isUser, timestamp } = message as Record<string, unknown>;
+  return typeof id === 'string' && typeof content === 'string' && typeof isUser === 'boolean' && typeof timestamp === 'string';
+};
+
+const readDoodleZip = async (file: Blob): Promise<DoodleDocument> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifest = await readJson<DoodleManifest>(zip, MANIFEST_PATH);
+  if (manifest.format !== 'doodle' || !manifest.pages?.length) {
+    throw new Error('Not a notebook file');
+  }
+  // Versions count up from 1
+  if (!Number.isInteger(manifest.version) || manifest.version < 1) {
+    throw new Error(`Unknown file version ${manifest.version}`);
+  }
+  if (manifest.version > DOODLE_FILE_VERSION) {
+    throw new Error(`Made by a newer version (file version ${manifest.version})`);
+  }
+
+  const images = await readImages(zip);
+  const readImage = (path: string) => images.get(path) ?? path;
+
+  return {
+    version: manifest.version,
+    name: manifest.name,
+    personality: manifest.personality,
+    activePage: manifest.activePage,
+    pages: await Promise.all(manifest.pages.map(async page => ({
+      canvas: page.canvas
+        ? mapCanvas(await readJson<NotebookCanvasData>(zip, page.canvas), obj => typeof obj.src === 'string' ? { ...obj, src: readImage(obj.src) } : obj)
+        : null,
+      exercise: page.exercise ? { ...page.exercise, image: readImage(page.exercise.image) } : null,
+      thumbnail: page.thumbnail && readImage(page.thumbnail),
+    }))),
+    messages: await readJson<NotebookMessage[]>(zip, manifest.chat),
+  };
+};
+
+// A Fabric canvas saved as JSON (`canvas.toJSON()`) opens as a one-page notebook
+const readCanvasJson = async (file: File): Promise<DoodleDocument> => {
+  const { version, objects, background, layers } = JSON.parse(await file.text()) as NotebookCanvasData;
+  if (!Array.isArray(objects)) {
+    throw new Error('Not a canvas file');
+  }
+
+  return {
+    version: DOODLE_FILE_VERSION,
+    name: file.name.replace(/\.json$/i, '') || 'Imported canvas',
+    personality: 'calm',
+    activePage: 0,
+    pages: [{ canvas: { version, objects, background, layers }, exercise: null }],
+    messages: [],
+  };
+};
+
+// Opens a .doodle file, or a Fabric canvas saved as .json
+export const readDoodleFile = async (file: File): Promise<DoodleNotebook> => {
+  let contents: DoodleDocument;
+
+  try {
+    contents = /\.json$/i.test(file.name) ? await readCanvasJson(file) : await readDoodleZip(file);
+
+    for (let version = contents.version; version < DOODLE_FILE_VERSION; version++) {
+      const migrate = MIGRATIONS[version];
+      if (!migrate) {
+        throw new Error(`No migration from file version ${version}`);
+      }
+      contents = { ...migrate(contents), version: version + 1 };
+    }
+  } catch (error) {
+    console.error('Doodle file error:', error);
+    throw new Error('Failed to read notebook file');
+  }
+
+  // The chat is saved with the notebook and listed with every other one, so a bad chat is
+  // refused and bad messages are left out rather than stored
+  if (!Array.isArray(contents.messages)) {
+    throw new Error('Failed to read notebook file');
+  }
+  const messages = contents.messages.filter(isNotebookMessage);
+  if (messages.length < contents.messages.length) {
+    console.warn(`Skipping ${contents.messages.length - messages.length} malformed chat messages`);
+  }
+
+  // Objects this version can't recreate would stop the whole page from loading, and images
+  // that aren't in the file aren't loaded, so both are left out
+  const pages = contents.pages.map(({ canvas, exercise, thumbnail }) => ({
+    id: crypto.randomUUID(),
+    canvas: canvas && mapCanvas({
+      version: canvas.version,
+      objects: canvas.objects,
+      background: typeof canvas.background === 'string' ? canvas.background : undefined,
+      layers: canvas.layers,
+    }, obj => {
+      if (typeof obj.type === 'string' && !classRegistry.has(obj.type)) {
+        console.warn(`Skipping unknown canvas object type "${obj.type}"`);
+        return null;
+      }
+      if (!getImageSources(obj).every(isEmbeddedImage)) {
+        console.warn('Skipping an image that is not in the file');
+        return null;
+      }
+      return obj;
+    }),
+    exercise: exercise && isEmbeddedImage(exercise.image) ? exercise : null,
+    thumbnail: isEmbeddedImage(thumbnail) ? thumbnail : undefined,
+  }));
+
+  return {
+    name: typeof contents.name === 'string' && contents.name.trim() ? contents.name : 'Imported notebook',
+    personality: NOTEBOOK_PERSONALITIES.includes(contents.personality) ? contents.personality : 'calm',
+    pages,
+    activePageId: (Number.isInteger(contents.activePage) && pages[contents.activePage]?.id) || pages[0].id,
+    messages,
+  };
+};
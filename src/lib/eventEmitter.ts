@@ -0,0 +1,41 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal typed pub/sub. `Events` maps each event name to its payload type.
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  // Returns a function that removes the listener again
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as Listener<never>);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners.get(event)?.delete(listener as Listener<never>);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    // Copy so listeners can unsubscribe while being called
+    [...(this.listeners.get(event) ?? [])].forEach(listener => {
+      try {
+        (listener as Listener<Events[K]>)(payload);
+      } catch (error) {
+        // One broken listener shouldn't keep the others from hearing the event
+        console.error(`Listener for "${String(event)}" failed:`, error);
+      }
+    });
+  }
+
+  hasListeners<K extends keyof Events>(event: K): boolean {
+    return (this.listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  removeAllListeners() {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FabricImage } from 'fabric';
+import { createMathObject, getMathSource, toMathSource } from './mathObjects';
+
+// Stands in for the loaded image, which needs a browser
+const stubImageLoading = () => vi.spyOn(FabricImage, 'fromURL').mockImplementation(async () => ({
+  set(props: object) { Object.assign(this, props); },
+  scale() {},
+}) as never);
+
+// The SVG behind a math object, read from the URL the image is loaded from
+const renderSvg = async (latex: string, color = '#2563eb') => {
+  const fromURL = stubImageLoading();
+  const image = await createMathObject({ latex, color });
+  const url = fromURL.mock.calls[0][0];
+  return { image, svg: decodeURIComponent(url.slice(url.indexOf(',') + 1)) };
+};
+
+describe('createMathObject', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('draws the math as SVG paths, with no HTML inside', async () => {
+    const { svg } = await renderSvg('\\frac{1}{2} + x^2');
+
+    expect(svg).toMatch(/^<svg [^>]*xmlns="http:\/\/www\.w3\.org\/2000\/svg"/);
+    expect(svg).toContain('<path');
+    expect(svg).not.toMatch(/foreignObject|<text/);
+  });
+
+  it('sizes the image in pixels and colours it', async () => {
+    const { svg } = await renderSvg('x', '#ff0000');
+
+    expect(svg).toMatch(/ width="\d+"/);
+    expect(svg).toMatch(/ height="\d+"/);
+    expect(svg).toContain('style="color:#ff0000"');
+  });
+
+  it('stacks lines split with \\\\', async () => {
+    const oneLine = await renderSvg('x = 1');
+    const twoLines = await renderSvg('x = 1 \\\\ y = 2');
+
+    const height = (svg: string) => Number(/ height="(\d+)"/.exec(svg)![1]);
+    expect(height(twoLines.svg)).toBeGreaterThan(1.5 * height(oneLine.svg));
+  });
+
+  it('shows LaTeX that does not parse as a red message', async () => {
+    const { svg } = await renderSvg('\\frac{1');
+
+    expect(svg).toContain('fill="#cc0000"');
+    expect(svg).not.toContain('data-background');
+  });
+
+  it('keeps its source', async () => {
+    const source = toMathSource('x^2/3', 'asciimath', '#000000');
+    stubImageLoading();
+
+    expect(getMathSource(await createMathObject(source))).toEqual(source);
+  });
+});
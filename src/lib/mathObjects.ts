@@ -0,0 +1,112 @@
+import { mathjax } from "mathjax-full/js/mathjax.js";
+import { TeX } from "mathjax-full/js/input/tex.js";
+import { SVG } from "mathjax-full/js/output/svg.js";
+import { liteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor.js";
+import { RegisterHTMLHandler } from "mathjax-full/js/handlers/html.js";
+import { AllPackages } from "mathjax-full/js/input/tex/AllPackages.js";
+import { FabricImage, type FabricObject } from "fabric";
+import { getObjectLayer, setObjectLayer } from "@/lib/canvasLayers";
+import { asciiMathToLatex } from "@/lib/asciiMath";
+
+// Typeset math on the canvas: an image of the rendered LaTeX that keeps its source,
+// so it can be opened again and edited
+export interface MathSource {
+  latex: string;
+  color: string;
+  // What the student typed when it was entered as ASCII math, e.g. "x^2/3"
+  asciimath?: string;
+}
+
+// How typed math is written
+export type MathFormat = 'latex' | 'asciimath';
+
+type MathObject = FabricObject & { math?: MathSource };
+
+// Size the math is rendered at; the image is scaled from there
+const MATH_FONT_SIZE = 32;
+const MATH_PADDING = 4;
+// MathJax lays out in thousandths of an em
+const MATH_UNITS_PER_EM = 1000;
+const MATH_ERROR_COLOR = '#cc0000';
+
+export const isMathObject = (obj: FabricObject): boolean => !!(obj as MathObject).math;
+
+export const getMathSource = (obj: FabricObject): MathSource | undefined => (obj as MathObject).math;
+
+export const toMathSource = (input: string, format: MathFormat, color: string): MathSource => {
+  return format === 'asciimath'
+    ? { latex: asciiMathToLatex(input), color, asciimath: input }
+    : { latex: input, color };
+};
+
+// The math as text for the tutor: what was typed, one line per row of the LaTeX
+export const getMathText = (obj: FabricObject): string => {
+  const source = getMathSource(obj);
+  if (!source) return '';
+  return (source.asciimath ?? source.latex).split(/\s*\\\\\s*/).join('\n').trim();
+};
+
+const adaptor = liteAdaptor();
+RegisterHTMLHandler(adaptor);
+let mathDocument: ReturnType<typeof mathjax.document> | null = null;
+
+// Created on first use: setting up the TeX packages takes a moment
+const getMathDocument = () => {
+  mathDocument ??= mathjax.document('', {
+    InputJax: new TeX({ packages: AllPackages }),
+    OutputJax: new SVG({ fontCache: 'none' }),
+  });
+  return mathDocument;
+};
+
+// MathJax draws every glyph as an SVG path, so the image needs no fonts, stylesheet or
+// foreignObject, which some browsers (Safari) won't draw to a canvas without tainting it
+const renderMathImage = ({ latex, color }: MathSource): string => {
+  // Lines split with \\ outside an environment are stacked, as in display math
+  const tex = latex.includes('\\\\') && !latex.includes('\\begin') ? `\\displaylines{${latex}}` : latex;
+  const node = getMathDocument().convert(tex, { display: true });
+  const svg = adaptor.firstChild(node) as ReturnType<typeof adaptor.node>;
+
+  // Sized in pixels at the render font size, with padding around the viewBox
+  const padding = (MATH_PADDING / MATH_FONT_SIZE) * MATH_UNITS_PER_EM;
+  const [x, y, width, height] = adaptor.getAttribute(svg, 'viewBox').split(' ').map(Number);
+  const paddedWidth = width + 2 * padding;
+  const paddedHeight = height + 2 * padding;
+  adaptor.setAttribute(svg, 'viewBox', `${x - padding} ${y - padding} ${paddedWidth} ${paddedHeight}`);
+  adaptor.setAttribute(svg, 'width', String(Math.ceil((paddedWidth / MATH_UNITS_PER_EM) * MATH_FONT_SIZE)));
+  adaptor.setAttribute(svg, 'height', String(Math.ceil((paddedHeight / MATH_UNITS_PER_EM) * MATH_FONT_SIZE)));
+  // The glyphs are drawn in currentColor
+  adaptor.setAttribute(svg, 'style', `color:${color}`);
+
+  // LaTeX that doesn't parse is shown as its message in red. The box behind it is
+  // only meant for MathJax's stylesheet and would otherwise be filled in.
+  const markup = adaptor.outerHTML(svg)
+    .replace(/<rect data-background="true"[^>]*><\/rect>/g, '')
+    .replace(/data-mml-node="merror"/g, `data-mml-node="merror" fill="${MATH_ERROR_COLOR}" stroke="${MATH_ERROR_COLOR}"`);
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+};
+
+// Render LaTeX as a canvas object, scaled to the font size when one is given.
+// Placing and recording it is up to the caller.
+export const createMathObject = async (source: MathSource, fontSize?: number): Promise<FabricImage> => {
+  const image = await FabricImage.fromURL(renderMathImage(source));
+  image.set({ math: source });
+  if (fontSize) image.scale(fontSize / MATH_FONT_SIZE);
+  return image;
+};
+
+// The same object re-rendered with new source, keeping its position, scale and layer
+export const updateMathObject = async (obj: FabricObject, source: MathSource): Promise<FabricImage> => {
+  const image = await createMathObject(source);
+  // Same scale rather than same size, so the text keeps its size as the expression changes
+  image.set({
+    left: obj.left,
+    top: obj.top,
+    angle: obj.angle,
+    scaleX: obj.scaleX,
+    scaleY: obj.scaleY,
+  });
+  setObjectLayer(image, getObjectLayer(obj));
+  return image;
+};
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeMathLine, verifyMathWork } from './mathVerifier';
+
+const statuses = (text: string) => verifyMathWork(text).steps.map(step => step.status);
+
+describe('normalizeMathLine', () => {
+  it('turns LaTeX and typographic symbols into plain math', () => {
+    expect(normalizeMathLine('$\\frac{6}{3} \\times 2 = 4$')).toBe('((6)/(3)) * 2 = 4');
+    expect(normalizeMathLine('1. x² − 4 = 0')).toBe('x^2 - 4 = 0');
+    expect(normalizeMathLine('x = \\pm 2')).toBe('x = ± 2');
+  });
+});
+
+describe('verifyMathWork', () => {
+  describe('arithmetic', () => {
+    it('accepts a chain where every part has the same value', () => {
+      expect(statuses('2 + 3 * 4 = 2 + 12 = 14')).toEqual(['correct']);
+      expect(statuses('(2 + 3)^2 = 25')).toEqual(['correct']);
+    });
+
+    it('points at the first wrong link in a chain', () => {
+      const { steps, firstError } = verifyMathWork('2 + 3 * 4 = 2 + 12 = 15');
+
+      expect(steps[0].status).toBe('incorrect');
+      expect(firstError?.reason).toBe('2 + 12 is 14, not 15');
+    });
+
+    it('accepts answers rounded to the precision written', () => {
+      expect(statuses('1/3 = 0.33')).toEqual(['correct']);
+      expect(statuses('2/3 = 0.667')).toEqual(['correct']);
+      expect(statuses('1/3 = 0.34')).toEqual(['incorrect']);
+      expect(statuses('sqrt(2) = 1.41')).toEqual(['correct']);
+    });
+
+    it('never accepts a division by zero', () => {
+      const [step] = verifyMathWork('1/0 = 5').steps;
+
+      expect(step.status).toBe('incorrect');
+      expect(step.reason).toBe('1/0 is a division by zero');
+      expect(statuses('0/0 = 4')).toEqual(['incorrect']);
+      expect(statuses('3 = 6/(2 - 2)')).toEqual(['incorrect']);
+    });
+
+    it('leaves other undefined values unchecked', () => {
+      expect(statuses('sqrt(-4) = 2')).toEqual(['unchecked']);
+    });
+  });
+
+  describe('equations', () => {
+    it('accepts linear steps that keep the solution', () => {
+      const { steps, checkedCount } = verifyMathWork('2x + 3 = 7\n2x = 4\nx = 2');
+
+      expect(steps.map(step => step.status)).toEqual(['unchecked', 'correct', 'correct']);
+      expect(steps[2].previousLine).toBe(2);
+      expect(checkedCount).toBe(2);
+    });
+
+    it('rejects a linear step that changes the solution', () => {
+      const { steps, firstError } = verifyMathWork('2x + 3 = 7\n2x = 10\nx = 5');
+
+      expect(steps.map(step => step.status)).toEqual(['unchecked', 'incorrect', 'correct']);
+      expect(firstError?.line).toBe(2);
+      expect(firstError?.reason).toBe('"2x + 3 = 7" gives x = 2, but "2x = 10" gives x = 5');
+    });
+
+    it('checks quadratic steps by their roots', () => {
+      expect(statuses('x^2 - 5x + 6 = 0\n(x - 2)(x - 3) = 0')).toEqual(['unchecked', 'correct']);
+      expect(statuses('x^2 - 5x + 6 = 0\n(x - 1)(x - 6) = 0')).toEqual(['unchecked', 'incorrect']);
+    });
+
+    it('accepts a rewrite of an expression as correct', () => {
+      expect(statuses('x^2 - 4 = (x - 2)(x + 2) = 0')).toEqual(['unchecked']);
+      expect(statuses('(x + 1)^2 = x^2 + 2x + 1')).toEqual(['correct']);
+    });
+
+    it('reads answers listed with ± or "or"', () => {
+      expect(statuses('x^2 = 4\nx = ±2')).toEqual(['unchecked', 'correct']);
+      expect(statuses('x^2 = 4\nx = 2 or x = -2')).toEqual(['unchecked', 'correct']);
+      expect(statuses('x^2 = 4\nx = 2')).toEqual(['unchecked', 'incorrect']);
+      expect(statuses('x^2 = 9\nx = ±2')).toEqual(['unchecked', 'incorrect']);
+    });
+
+    it('accepts rounded roots', () => {
+      expect(statuses('x^2 = 2\nx = ±1.41')).toEqual(['unchecked', 'correct']);
+    });
+  });
+
+  describe('lines it cannot check', () => {
+    it('leaves prose and lines without an equation unchecked', () => {
+      const { steps, checkedCount } = verifyMathWork('First we solve for x\nx > 3');
+
+      expect(steps.map(step => step.status)).toEqual(['unchecked', 'unchecked']);
+      expect(checkedCount).toBe(0);
+    });
+
+    it('leaves lines that do not parse unchecked', () => {
+      expect(verifyMathWork('2 + = 5').steps[0]).toMatchObject({ status: 'unchecked', reason: 'could not parse' });
+      expect(verifyMathWork('(2 + 3 = 5').steps[0]).toMatchObject({ status: 'unchecked', reason: 'could not parse' });
+    });
+
+    it('leaves equations in more than one variable unchecked', () => {
+      expect(verifyMathWork('x + y = 5').steps[0]).toMatchObject({ status: 'unchecked', reason: 'more than one variable' });
+    });
+
+    it('leaves equations above degree two unchecked', () => {
+      expect(verifyMathWork('x^3 = 8').steps[0]).toMatchObject({ status: 'unchecked', reason: 'not a linear or quadratic equation' });
+    });
+  });
+});
@@ -0,0 +1,426 @@
+// Deterministic checker for handwritten arithmetic and one-variable algebra.
+// Each line of work is parsed and compared numerically: chains of `=` must
+// hold, and consecutive equations must keep the same solutions.
+
+export type MathStepStatus = 'correct' | 'incorrect' | 'unchecked';
+
+export interface MathStepCheck {
+  // 1-based line number within the checked text
+  line: number;
+  text: string;
+  status: MathStepStatus;
+  // The earlier line this step was compared with, if any
+  previous?: string;
+  previousLine?: number;
+  reason?: string;
+}
+
+export interface MathVerification {
+  steps: MathStepCheck[];
+  firstError: MathStepCheck | null;
+  checkedCount: number;
+}
+
+type Compiled = (vars: Record<string, number>) => number;
+
+interface ParsedExpression {
+  evaluate: Compiled;
+  variables: Set<string>;
+  // Everything the expression divides by, to tell a division by zero from other undefined values
+  denominators: Compiled[];
+}
+
+// Solutions of a one-variable equation: a finite set, every number, or none
+type SolutionSet = { kind: 'roots'; roots: number[] } | { kind: 'all' } | { kind: 'none' };
+
+interface EquationStep {
+  variable: string;
+  solutions: SolutionSet;
+  text: string;
+  line: number;
+}
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  abs: Math.abs,
+};
+
+const SUPERSCRIPTS: Record<string, string> = { '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9' };
+
+// Turn OCR output (often with bits of LaTeX and typographic symbols) into plain ASCII math
+export const normalizeMathLine = (line: string): string => {
+  let text = line
+    .replace(/\$|\\\(|\\\)|\\\[|\\\]/g, '')
+    .replace(/^\s*(?:[-*•]|\d+[.)]|[a-z][.)]|step\s*\d+\s*:)\s+/i, '')
+    .replace(/\\left|\\right/g, '')
+    .replace(/\\cdot|\\times|×|·|∙/g, '*')
+    .replace(/\\div|÷/g, '/')
+    .replace(/[−–]/g, '-')
+    .replace(/\\pm|±/g, '±')
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, digits => `^${[...digits].map(d => SUPERSCRIPTS[d]).join('')}`);
+
+  // \frac{a}{b} and \sqrt{a}, innermost first
+  let previous = '';
+  while (previous !== text) {
+    previous = text;
+    text = text
+      .replace(/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, '(($1)/($2))')
+      .replace(/\\sqrt\{([^{}]*)\}/g, 'sqrt($1)');
+  }
+
+  return text.replace(/[{}]/g, match => (match === '{' ? '(' : ')')).replace(/\\/g, '').trim();
+};
+
+type Token = { type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'op'; value: string };
+
+const tokenize = (text: string): Token[] | null => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[\d.]/.test(char)) {
+      const match = /^\d*\.?\d+|^\d+\.?/.exec(text.slice(i));
+      if (!match) return null;
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (/[a-z]/i.test(char)) {
+      const match = /^[a-z]+/i.exec(text.slice(i))!;
+      const word = match[0].toLowerCase();
+      if (FUNCTIONS[word]) {
+        tokens.push({ type: 'name', value: word });
+      } else if (word.length <= 2) {
+        // Single-letter variables; "xy" means x*y
+        [...word].forEach(letter => tokens.push({ type: 'name', value: letter }));
+      } else {
+        return null; // A real word: this line is prose, not math
+      }
+      i += match[0].length;
+    } else if ('+-*/^()'.includes(char)) {
+      tokens.push({ type: 'op', value: char });
+      i++;
+    } else {
+      return null;
+    }
+  }
+  return tokens;
+};
+
+// Recursive-descent parser with implicit multiplication (2x, 3(x+1), (x+1)(x-1))
+const parseExpression = (text: string): ParsedExpression | null => {
+  const tokens = tokenize(text);
+  if (!tokens || tokens.length === 0) return null;
+
+  const variables = new Set<string>();
+  const denominators: Compiled[] = [];
+  let position = 0;
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === 'op' && peek().value === value;
+
+  const parseSum = (): Compiled => {
+    let left = parseProduct();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      const right = parseProduct();
+      const l = left;
+      left = op === '+' ? vars => l(vars) + right(vars) : vars => l(vars) - right(vars);
+    }
+    return left;
+  };
+
+  const startsFactor = () => {
+    const token = peek();
+    return !!token && (token.type !== 'op' || token.value === '(');
+  };
+
+  const parseProduct = (): Compiled => {
+    let left = parseUnary();
+    while (isOp('*') || isOp('/') || startsFactor()) {
+      const op = isOp('*') || isOp('/') ? tokens[position++].value : '*';
+      const right = parseUnary();
+      if (op === '/') denominators.push(right);
+      const l = left;
+      left = op === '*' ? vars => l(vars) * right(vars) : vars => l(vars) / right(vars);
+    }
+    return left;
+  };
+
+  const parseUnary = (): Compiled => {
+    if (isOp('-')) {
+      position++;
+      const operand = parseUnary();
+      return vars => -operand(vars);
+    }
+    if (isOp('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Compiled => {
+    const base = parsePrimary();
+    if (!isOp('^')) return base;
+    position++;
+    const exponent = parseUnary();
+    return vars => Math.pow(base(vars), exponent(vars));
+  };
+
+  const parsePrimary = (): Compiled => {
+    const token = tokens[position++];
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      return () => token.value;
+    }
+    if (token.type === 'name') {
+      const fn = FUNCTIONS[token.value];
+      if (fn) {
+        const argument = parsePrimary();
+        return vars => fn(argument(vars));
+      }
+      variables.add(token.value);
+      return vars => vars[token.value];
+    }
+    if (token.value === '(') {
+      const inner = parseSum();
+      if (!isOp(')')) throw new Error('Missing closing parenthesis');
+      position++;
+      return inner;
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  try {
+    const evaluate = parseSum();
+    if (position !== tokens.length) return null;
+    return { evaluate, variables, denominators };
+  } catch {
+    return null;
+  }
+};
+
+// Rounded answers are accepted to the precision the student wrote
+const toleranceFor = (text: string) => {
+  const decimals = Math.max(0, ...[...text.matchAll(/\d\.(\d+)/g)].map(match => match[1].length));
+  return decimals > 0 ? 0.5 * Math.pow(10, -decimals) + 1e-9 : 1e-9;
+};
+
+// Absolute comparison for rounded results, relative for exact ones
+const nearlyEqual = (a: number, b: number, tolerance: number) => {
+  const limit = tolerance > 1e-9 ? tolerance : tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+  return Math.abs(a - b) <= limit;
+};
+
+const SAMPLE_POINTS = [-2.5, -1.3, 0.7, 1.9, 3.1];
+
+// Two expressions in (at most) one variable that agree everywhere we look
+const areEquivalent = (a: ParsedExpression, b: ParsedExpression, variable: string | null, tolerance: number) => {
+  const points = variable ? SAMPLE_POINTS : [0];
+  return points.every(x => {
+    const vars = variable ? { [variable]: x } : {};
+    const left = a.evaluate(vars);
+    const right = b.evaluate(vars);
+    return Number.isFinite(left) && Number.isFinite(right) && nearlyEqual(left, right, tolerance);
+  });
+};
+
+// Solve lhs = rhs when lhs - rhs is a polynomial of degree <= 2; null if it isn't
+const solveEquation = (lhs: ParsedExpression, rhs: ParsedExpression, variable: string): SolutionSet | null => {
+  const f = (x: number) => lhs.evaluate({ [variable]: x }) - rhs.evaluate({ [variable]: x });
+  const c = f(0);
+  const a = (f(1) + f(-1) - 2 * c) / 2;
+  const b = (f(1) - f(-1)) / 2;
+
+  // Make sure the quadratic fit really describes the equation
+  const fits = [2, -3, 4.5].every(x => {
+    const actual = f(x);
+    const predicted = a * x * x + b * x + c;
+    return Number.isFinite(actual) && Math.abs(actual - predicted) <= 1e-7 * Math.max(1, Math.abs(actual));
+  });
+  if (!fits || ![a, b, c].every(Number.isFinite)) return null;
+
+  const eps = 1e-10;
+  if (Math.abs(a) < eps) {
+    if (Math.abs(b) < eps) return Math.abs(c) < eps ? { kind: 'all' } : { kind: 'none' };
+    return { kind: 'roots', roots: [-c / b] };
+  }
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < -eps) return { kind: 'none' };
+  if (Math.abs(discriminant) <= eps) return { kind: 'roots', roots: [-b / (2 * a)] };
+
+  const sqrt = Math.sqrt(discriminant);
+  return { kind: 'roots', roots: [(-b - sqrt) / (2 * a), (-b + sqrt) / (2 * a)].sort((x, y) => x - y) };
+};
+
+const sameSolutions = (a: SolutionSet, b: SolutionSet, tolerance: number) => {
+  if (a.kind !== 'roots' || b.kind !== 'roots') return a.kind === b.kind;
+
+  const unique = (roots: number[]) => roots.filter((root, i) => roots.findIndex(r => nearlyEqual(r, root, tolerance)) === i);
+  const left = unique(a.roots);
+  const right = unique(b.roots);
+  return left.length === right.length && left.every(root => right.some(r => nearlyEqual(r, root, tolerance)));
+};
+
+const describeSolutions = (solutions: SolutionSet, variable: string) => {
+  if (solutions.kind === 'all') return 'every value';
+  if (solutions.kind === 'none') return 'no solution';
+  return solutions.roots.map(root => `${variable} = ${+root.toFixed(4)}`).join(' or ');
+};
+
+// "x = 2 or x = -3", "x = ±2": a line listing the solutions directly
+const parseSolutionList = (text: string, line: number): EquationStep | null => {
+  const parts = text.split(/\s+or\s+|,|;/i).map(part => part.trim()).filter(Boolean);
+  let variable: string | null = null;
+  const roots: number[] = [];
+
+  for (const part of parts) {
+    const match = /^([a-z])\s*=\s*(±)?(.+)$/i.exec(part);
+    if (!match) return null;
+    if (variable && variable !== match[1].toLowerCase()) return null;
+    variable = match[1].toLowerCase();
+
+    const value = parseExpression(match[3]);
+    if (!value || value.variables.size > 0) return null;
+    const number = value.evaluate({});
+    if (!Number.isFinite(number)) return null;
+    roots.push(number);
+    if (match[2]) roots.push(-number);
+  }
+
+  if (!variable || (parts.length < 2 && !text.includes('±'))) return null;
+  return { variable, solutions: { kind: 'roots', roots }, text, line };
+};
+
+export const verifyMathWork = (text: string): MathVerification => {
+  const steps: MathStepCheck[] = [];
+  let previousEquation: EquationStep | null = null;
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = index + 1;
+    const original = rawLine.trim();
+    if (!original) return;
+
+    const normalized = normalizeMathLine(original);
+    const tolerance = toleranceFor(normalized);
+    const unchecked = (reason?: string) => steps.push({ line, text: original, status: 'unchecked', reason });
+
+    if (!normalized.includes('=') || /[<>≤≥≠]/.test(normalized)) {
+      unchecked();
+      return;
+    }
+
+    const listed = parseSolutionList(normalized, line);
+    if (listed) {
+      steps.push(compareEquations(previousEquation, { ...listed, text: original }, tolerance));
+      previousEquation = { ...listed, text: original };
+      return;
+    }
+
+    const parts = normalized.split('=').map(part => parseExpression(part.replace(/±/g, '')));
+    if (parts.some(part => !part) || normalized.includes('±')) {
+      unchecked('could not parse');
+      return;
+    }
+    const expressions = parts as ParsedExpression[];
+    const variables = new Set(expressions.flatMap(expression => [...expression.variables]));
+    if (variables.size > 1) {
+      unchecked('more than one variable');
+      return;
+    }
+    const variable = variables.size === 1 ? [...variables][0] : null;
+
+    // Arithmetic: every part of the chain must have the same value
+    if (!variable) {
+      // 1/0 or sqrt(-1) has no value, so nothing written after it can be right
+      const undefinedPart = expressions.findIndex(expression => !Number.isFinite(expression.evaluate({})));
+      if (undefinedPart >= 0) {
+        const part = normalized.split('=')[undefinedPart].trim();
+        if (expressions[undefinedPart].denominators.some(denominator => denominator({}) === 0)) {
+          steps.push({ line, text: original, status: 'incorrect', reason: `${part} is a division by zero` });
+        } else {
+          unchecked(`${part} has no value`);
+        }
+        return;
+      }
+
+      const values = expressions.map(expression => expression.evaluate({}));
+      const wrong = values.findIndex((value, i) => i > 0 && !nearlyEqual(values[i - 1], value, tolerance));
+      if (wrong > 0) {
+        const [before, after] = normalized.split('=').slice(wrong - 1, wrong + 1).map(part => part.trim());
+        steps.push({
+          line, text: original, status: 'incorrect',
+          reason: `${before} is ${+values[wrong - 1].toFixed(6)}, not ${after}`,
+        });
+      } else {
+        steps.push({ line, text: original, status: 'correct' });
+      }
+      return;
+    }
+
+    // Algebra: a chain is a series of rewrites, except that the last link may be the equation itself
+    // (e.g. x^2 - 4 = (x-2)(x+2) = 0)
+    const last = expressions.length - 1;
+    for (let i = 1; i < last; i++) {
+      if (!areEquivalent(expressions[i - 1], expressions[i], variable, tolerance)) {
+        steps.push({ line, text: original, status: 'incorrect', reason: `the expressions on either side of "=" number ${i} are not equal` });
+        return;
+      }
+    }
+    if (areEquivalent(expressions[last - 1], expressions[last], variable, tolerance)) {
+      steps.push({ line, text: original, status: 'correct' }); // An identity (a valid rewrite)
+      return;
+    }
+
+    const solutions = solveEquation(expressions[last - 1], expressions[last], variable);
+    if (!solutions) {
+      unchecked('not a linear or quadratic equation');
+      return;
+    }
+
+    const equation = { variable, solutions, text: original, line };
+    steps.push(compareEquations(previousEquation, equation, tolerance));
+    previousEquation = equation;
+  });
+
+  const firstError = steps.find(step => step.status === 'incorrect') ?? null;
+  return {
+    steps,
+    firstError,
+    checkedCount: steps.filter(step => step.status !== 'unchecked').length,
+  };
+};
+
+// A new equation is a correct step when it has the same solutions as the one before it
+const compareEquations = (
+  previous: EquationStep | null,
+  current: EquationStep,
+  tolerance: number
+): MathStepCheck => {
+  const { line, text } = current;
+  if (!previous || previous.variable !== current.variable) {
+    return { line, text, status: 'unchecked', reason: 'first equation, nothing to compare with' };
+  }
+
+  if (sameSolutions(previous.solutions, current.solutions, tolerance)) {
+    return { line, text, status: 'correct', previous: previous.text, previousLine: previous.line };
+  }
+
+  return {
+    line,
+    text,
+    status: 'incorrect',
+    previous: previous.text,
+    previousLine: previous.line,
+    reason: `"${previous.text}" gives ${describeSolutions(previous.solutions, previous.variable)}, `
+      + `but "${text}" gives ${describeSolutions(current.solutions, current.variable)}`,
+  };
+};
@@ -0,0 +1,182 @@
+import { Canvas as FabricCanvas } from "fabric";
+import { jsPDF } from "jspdf";
+import {
+  createGridLines,
+  expandBounds,
+  getContentBounds,
+  getContentObjects,
+  isAcceptedTutorMark,
+  loadCanvasContent,
+  renderRegion,
+  type SceneBounds,
+} from "@/lib/canvasObjects";
+import { applyLayers, normalizeLayers } from "@/lib/canvasLayers";
+import type { NotebookMessage, NotebookPage } from "@/services/notebookStorage";
+
+export interface PageExportOptions {
+  includeGrid: boolean;
+  // The tutor marks the student kept
+  includeAnnotations: boolean;
+}
+
+// Room left around the content of an exported page
+const PAGE_PADDING = 40;
+// What an empty page exports as
+const EMPTY_PAGE: SceneBounds = { left: 0, top: 0, right: 800, bottom: 600 };
+// Canvas pixels are CSS pixels: 96 per inch, against PDF's 72 points
+const PX_TO_PT = 0.75;
+// Page images in the PDF are drawn at twice the scene resolution so they stay sharp when zoomed
+const PDF_IMAGE_SCALE = 2;
+
+const TRANSCRIPT_MARGIN = 48;
+const TRANSCRIPT_FONT_SIZE = 11;
+const TRANSCRIPT_LINE_HEIGHT = 15;
+
+// A page loaded into an offscreen canvas with the page's layer settings, and the area to export.
+// Hidden layers are left out. The canvas must be disposed when done.
+const openPage = async (page: NotebookPage, { includeGrid, includeAnnotations }: PageExportOptions) => {
+  const canvas = new FabricCanvas(document.createElement('canvas'), {
+    renderOnAddRemove: false,
+    backgroundColor: '#ffffff',
+  });
+
+  if (page.canvas) {
+    await loadCanvasContent(canvas, page.canvas);
+    applyLayers(canvas, normalizeLayers(page.canvas.layers));
+  }
+  getContentObjects(canvas)
+    .filter(obj => !obj.visible || (!includeAnnotations && isAcceptedTutorMark(obj)))
+    .forEach(obj => canvas.remove(obj));
+
+  const content = getContentBounds(canvas);
+  const bounds = content ? expandBounds(content, PAGE_PADDING) : EMPTY_PAGE;
+  if (includeGrid) {
+    // Grid lines are normally left out of exports; here they are wanted, SVG included
+    const lines = createGridLines(bounds);
+    lines.forEach(line => line.set({ excludeFromExport: false }));
+    canvas.insertAt(0, ...lines);
+  }
+
+  return { canvas, bounds };
+};
+
+const getSize = (bounds: SceneBounds) => ({
+  width: Math.ceil(bounds.right - bounds.left),
+  height: Math.ceil(bounds.bottom - bounds.top),
+});
+
+// One page as a PNG, `multiplier` times the scene resolution
+export const exportPagePng = async (page: NotebookPage, multiplier: number, options: PageExportOptions): Promise<Blob> => {
+  const { canvas, bounds } = await openPage(page, options);
+
+  try {
+    const element = renderRegion(canvas, bounds, multiplier, () => true);
+    return await new Promise<Blob>((resolve, reject) => {
+      element.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode PNG')), 'image/png');
+    });
+  } finally {
+    canvas.dispose();
+  }
+};
+
+// One page as vector SVG; images (the exercise, typeset math) are embedded as they are
+export const exportPageSvg = async (page: NotebookPage, options: PageExportOptions): Promise<string> => {
+  const { canvas, bounds } = await openPage(page, options);
+
+  try {
+    const { width, height } = getSize(bounds);
+    return canvas.toSVG({
+      viewBox: { x: bounds.left, y: bounds.top, width, height },
+      width: String(width),
+      height: String(height),
+    });
+  } finally {
+    canvas.dispose();
+  }
+};
+
+// The built-in PDF fonts only cover Latin-1, so anything else (emoji, most symbols) is dropped
+const toPdfText = (text: string) => text.replace(/[^\t\n\r\u0020-\u007E\u00A0-\u00FF]/g, '');
+
+// The conversation on A4 pages after the notebook pages
+const addTranscript = (doc: jsPDF, messages: NotebookMessage[]) => {
+  doc.addPage('a4', 'portrait');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - 2 * TRANSCRIPT_MARGIN;
+  let y = TRANSCRIPT_MARGIN;
+
+  const writeLines = (lines: string[]) => {
+    lines.forEach(line => {
+      if (y > pageHeight - TRANSCRIPT_MARGIN) {
+        doc.addPage('a4', 'portrait');
+        y = TRANSCRIPT_MARGIN;
+      }
+      doc.text(line, TRANSCRIPT_MARGIN, y, { baseline: 'top' });
+      y += TRANSCRIPT_LINE_HEIGHT;
+    });
+  };
+
+  doc.setFont('helvetica', 'bold').setFontSize(16);
+  writeLines(['Chat transcript']);
+  y += TRANSCRIPT_LINE_HEIGHT;
+
+  messages.forEach(message => {
+    const time = new Date(message.timestamp).toLocaleString();
+    const author = message.isUser ? 'You' : message.isLiveCommentary ? 'Tutor (live feedback)' : 'Tutor';
+    doc.setFont('helvetica', 'bold').setFontSize(TRANSCRIPT_FONT_SIZE);
+    writeLines([`${author} - ${time}`]);
+    doc.setFont('helvetica', 'normal');
+    writeLines(doc.splitTextToSize(toPdfText(message.content), textWidth));
+    y += TRANSCRIPT_LINE_HEIGHT / 2;
+  });
+};
+
+// Every page in order, each PDF page sized to its content, optionally followed by the chat
+export const exportNotebookPdf = async (
+  pages: NotebookPage[],
+  options: PageExportOptions,
+  transcript?: NotebookMessage[]
+): Promise<Blob> => {
+  let doc: jsPDF | null = null;
+
+  for (const page of pages) {
+    const { canvas, bounds } = await openPage(page, options);
+    try {
+      const { width, height } = getSize(bounds);
+      const format = [width * PX_TO_PT, height * PX_TO_PT];
+      const orientation = width > height ? 'landscape' : 'portrait';
+      if (doc) {
+        doc.addPage(format, orientation);
+      } else {
+        doc = new jsPDF({ unit: 'pt', format, orientation });
+      }
+      doc.addImage(renderRegion(canvas, bounds, PDF_IMAGE_SCALE, () => true), 'PNG', 0, 0, format[0], format[1]);
+    } finally {
+      canvas.dispose();
+    }
+  }
+
+  if (!doc) {
+    throw new Error('Nothing to export');
+  }
+  if (transcript && transcript.length > 0) {
+    addTranscript(doc, transcript);
+  }
+  return doc.output('blob');
+};
+
+// A notebook name as a file name, without the extension
+export const toFileName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'notebook';
+
+// Save a file through the browser's download
+export const downloadFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
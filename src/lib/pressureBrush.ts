@@ -0,0 +1,280 @@
+import { classRegistry, Path, PencilBrush, Point, type TEvent, type TSimplePathData, type XY } from "fabric";
+
+// The lightest touch still draws this share of the full width
+const MIN_PRESSURE_WIDTH = 0.25;
+// A pen laid flat draws up to this much wider, like a pencil on its side
+const MAX_TILT_WIDENING = 0.5;
+// At full stabilizer the line moves this much of the way to the pen on each event
+const MIN_FOLLOW = 0.1;
+// Points sampled along each curve when outlining a pressure stroke
+const CURVE_SAMPLES = 4;
+
+interface OutlineSample extends XY {
+  radius: number;
+}
+
+// A freehand stroke whose width varies along its length. The path is the centre line, as for
+// any stroke, and `widths` holds a share of `strokeWidth` for each of its commands.
+export class PressurePath extends Path {
+  static type = 'PressurePath';
+  static customProperties = ['widths'];
+  static cacheProperties = [...Path.cacheProperties, 'widths'];
+
+  declare widths: number[];
+
+  getAverageWidth(): number {
+    return this.widths.reduce((sum, width) => sum + width, 0) / this.widths.length;
+  }
+
+  // The centre line as points, each with half the stroke width there
+  private getOutlineSamples(): OutlineSample[] {
+    const samples: OutlineSample[] = [];
+    let current: XY = { x: 0, y: 0 };
+    let currentRadius = 0;
+
+    this.path.forEach((command, index) => {
+      const radius = (this.strokeWidth * (this.widths[index] ?? 1)) / 2;
+      if (command[0] === 'Q') {
+        const [, cx, cy, x, y] = command;
+        for (let step = 1; step <= CURVE_SAMPLES; step++) {
+          const t = step / CURVE_SAMPLES;
+          const u = 1 - t;
+          samples.push({
+            x: u * u * current.x + 2 * u * t * cx + t * t * x,
+            y: u * u * current.y + 2 * u * t * cy + t * t * y,
+            radius: currentRadius + (radius - currentRadius) * t,
+          });
+        }
+        current = { x, y };
+      } else if (command[0] === 'M' || command[0] === 'L') {
+        current = { x: command[1], y: command[2] };
+        samples.push({ ...current, radius });
+      }
+      currentRadius = radius;
+    });
+
+    return samples;
+  }
+
+  // The stroke's shape as a round dot at every sample joined by a band to the next one. All
+  // parts wind the same way, so filling them together gives their union without seams.
+  private traceOutline(moveTo: (p: XY) => void, lineTo: (p: XY) => void, circle: (p: OutlineSample) => void) {
+    const samples = this.getOutlineSamples();
+
+    samples.forEach((sample, index) => {
+      circle(sample);
+      const previous = samples[index - 1];
+      if (!previous) return;
+
+      const length = Math.hypot(sample.x - previous.x, sample.y - previous.y);
+      if (length === 0) return;
+      const nx = -(sample.y - previous.y) / length;
+      const ny = (sample.x - previous.x) / length;
+      const band = [
+        { x: previous.x + nx * previous.radius, y: previous.y + ny * previous.radius },
+        { x: sample.x + nx * sample.radius, y: sample.y + ny * sample.radius },
+        { x: sample.x - nx * sample.radius, y: sample.y - ny * sample.radius },
+        { x: previous.x - nx * previous.radius, y: previous.y - ny * previous.radius },
+      ];
+      const area = band.reduce((sum, p, i) => {
+        const next = band[(i + 1) % band.length];
+        return sum + p.x * next.y - next.x * p.y;
+      }, 0);
+      if (area < 0) band.reverse();
+
+      moveTo(band[0]);
+      band.slice(1).forEach(lineTo);
+    });
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const { x: ox, y: oy } = this.pathOffset;
+    ctx.beginPath();
+    this.traceOutline(
+      p => ctx.moveTo(p.x - ox, p.y - oy),
+      p => ctx.lineTo(p.x - ox, p.y - oy),
+      p => {
+        ctx.moveTo(p.x - ox + p.radius, p.y - oy);
+        ctx.arc(p.x - ox, p.y - oy, p.radius, 0, Math.PI * 2);
+      }
+    );
+    ctx.fillStyle = this.stroke as string;
+    ctx.fill('nonzero');
+  }
+
+  _toSVG() {
+    const parts: string[] = [];
+    const format = (value: number) => Number(value.toFixed(2));
+    this.traceOutline(
+      p => parts.push(`M ${format(p.x)} ${format(p.y)}`),
+      p => parts.push(`L ${format(p.x)} ${format(p.y)}`),
+      p => parts.push(
+        `M ${format(p.x + p.radius)} ${format(p.y)}`,
+        `A ${format(p.radius)} ${format(p.radius)} 0 1 1 ${format(p.x - p.radius)} ${format(p.y)}`,
+        `A ${format(p.radius)} ${format(p.radius)} 0 1 1 ${format(p.x + p.radius)} ${format(p.y)}`
+      )
+    );
+    return ['<path ', 'COMMON_PARTS', `d="${parts.join(' ')}" />\n`];
+  }
+
+  // The outline is filled with the ink colour rather than stroked
+  getSvgStyles(skipShadow?: boolean) {
+    const { fill, stroke } = this;
+    this.fill = stroke;
+    this.stroke = null;
+    try {
+      return super.getSvgStyles(skipShadow);
+    } finally {
+      this.fill = fill;
+      this.stroke = stroke;
+    }
+  }
+}
+
+classRegistry.setClass(PressurePath);
+
+// Width of a pen stroke at one event, as a share of the brush size. Mice and fingers
+// report no real pressure, so they always draw at full width.
+const getPenWidth = (e: TEvent['e']) => {
+  if (!(e instanceof PointerEvent) || e.pointerType !== 'pen') return 1;
+
+  const pressure = MIN_PRESSURE_WIDTH + (1 - MIN_PRESSURE_WIDTH) * e.pressure;
+  const tilt = Math.min(1, Math.hypot(e.tiltX, e.tiltY) / 90);
+  return pressure * (1 + MAX_TILT_WIDENING * tilt);
+};
+
+// Freehand brush that follows pen pressure and tilt, and smooths the line with a stabilizer.
+// Strokes drawn without pressure are ordinary paths.
+export class PressureBrush extends PencilBrush {
+  // Whether pen pressure and tilt change the width
+  pressureEnabled = true;
+  // 0 draws exactly where the pen is; towards 1 the line trails behind it and wobbles less
+  stabilizer = 0;
+
+  private penWidths: number[] = [];
+  private currentWidth = 1;
+  private hasPressure = false;
+  private stabilized: Point | null = null;
+  private target: Point | null = null;
+
+  private readWidth(e: TEvent['e']) {
+    this.currentWidth = this.pressureEnabled ? getPenWidth(e) : 1;
+    if (this.currentWidth !== 1) this.hasPressure = true;
+  }
+
+  private follow(pointer: Point) {
+    if (!this.stabilized) return pointer;
+    this.stabilized = this.stabilized.lerp(pointer, 1 - this.stabilizer * (1 - MIN_FOLLOW));
+    return this.stabilized;
+  }
+
+  onMouseDown(pointer: Point, event: TEvent) {
+    this.hasPressure = false;
+    this.stabilized = pointer;
+    this.target = pointer;
+    this.readWidth(event.e);
+    super.onMouseDown(pointer, event);
+  }
+
+  onMouseMove(pointer: Point, event: TEvent) {
+    this.target = pointer;
+    this.readWidth(event.e);
+    super.onMouseMove(this.follow(pointer), event);
+  }
+
+  onMouseUp(event: TEvent) {
+    // Let a trailing line catch up with where the pen was lifted
+    if (this.stabilizer > 0 && this.stabilized && this.target && this.canvas._isMainEvent(event.e)) {
+      for (let i = 0; i < 20 && this.stabilized.distanceFrom(this.target) > 0.5; i++) {
+        this._addPoint(this.follow(this.target));
+      }
+      this._addPoint(this.target);
+    }
+    this.stabilized = null;
+    this.target = null;
+    return super.onMouseUp(event);
+  }
+
+  needsFullRender() {
+    // A stroke of changing width is redrawn whole, a segment at a time
+    return super.needsFullRender() || this.hasPressure;
+  }
+
+  _reset() {
+    super._reset();
+    this.penWidths = [];
+  }
+
+  _addPoint(point: Point) {
+    const count = this._points.length;
+    if (!super._addPoint(point)) return false;
+    // A straight line (Shift) replaces the last point rather than adding one
+    if (this._points.length === count) this.penWidths.pop();
+    this.penWidths.push(this.currentWidth);
+    return true;
+  }
+
+  _render(ctx: CanvasRenderingContext2D = this.canvas.contextTop) {
+    if (!this.hasPressure) {
+      super._render(ctx);
+      return;
+    }
+
+    const points = this._points;
+    this._saveAndTransform(ctx);
+    let start: XY = points[0];
+    points.forEach((point, i) => {
+      const end = points[i + 1] ? point.midPointFrom(points[i + 1]) : point;
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.quadraticCurveTo(point.x, point.y, end.x, end.y);
+      ctx.lineWidth = this.width * this.penWidths[i];
+      ctx.stroke();
+      start = end;
+    });
+    ctx.restore();
+  }
+
+  decimatePoints(points: Point[], distance: number) {
+    const kept = super.decimatePoints(points, distance);
+    const widths = new Map(points.map((point, i) => [point, this.penWidths[i]]));
+    this.penWidths = kept.map(point => widths.get(point) ?? 1);
+    return kept;
+  }
+
+  convertPointsToSVGPath(points: Point[]): TSimplePathData {
+    if (!this.hasPressure) return super.convertPointsToSVGPath(points);
+
+    // One command per point, so each one lines up with its width
+    const path: TSimplePathData = [['M', points[0].x, points[0].y]];
+    for (let i = 1; i < points.length; i++) {
+      const end = points[i - 1].midPointFrom(points[i]);
+      path.push(['Q', points[i - 1].x, points[i - 1].y, end.x, end.y]);
+    }
+    const last = points[points.length - 1];
+    path.push(['L', last.x, last.y]);
+    return path;
+  }
+
+  createPath(pathData: TSimplePathData): Path {
+    if (!this.hasPressure) return super.createPath(pathData);
+
+    const widths = this.penWidths;
+    const commandWidths = [
+      widths[0],
+      ...widths.slice(1).map((width, i) => (widths[i] + width) / 2),
+      widths[widths.length - 1],
+    ].map(width => this.width * width);
+    const strokeWidth = Math.max(...commandWidths);
+
+    const path = new PressurePath(pathData, {
+      fill: null,
+      stroke: this.color,
+      strokeWidth,
+      strokeLineCap: 'round',
+      strokeLineJoin: 'round',
+    });
+    path.widths = commandWidths.map(width => width / strokeWidth);
+    return path;
+  }
+}
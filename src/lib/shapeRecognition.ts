@@ -0,0 +1,315 @@
+import { Circle, Ellipse, Line, Path, Polygon, Rect, type FabricObject, type Point, type XY } from "fabric";
+import { densifyPolyline, distanceToSegment } from "@/lib/strokeGeometry";
+import { getObjectLayer, setObjectLayer } from "@/lib/canvasLayers";
+import { PressurePath } from "@/lib/pressureBrush";
+
+export type RecognizedShape =
+  | { kind: 'line'; from: XY; to: XY }
+  | { kind: 'arrow'; from: XY; to: XY }
+  | { kind: 'ellipse'; center: XY; rx: number; ry: number; angle: number }
+  | { kind: 'rectangle'; center: XY; width: number; height: number; angle: number }
+  | { kind: 'polygon'; points: XY[] };
+
+// Strokes smaller than this (scene px across) are left alone: dots, ticks, letters
+const MIN_SIZE = 16;
+// A stroke whose ends are this close, relative to its size, is a closed shape
+const CLOSED_GAP = 0.2;
+// How far a line may wander from straight, relative to its length
+const LINE_TOLERANCE = 0.08;
+// How closely a closed shape must follow its fit, relative to its size
+const FIT_TOLERANCE = 0.05;
+// Corners are found by simplifying the stroke to within this share of its size
+const CORNER_TOLERANCE = 0.06;
+// Corners flatter than this (degrees) are treated as part of a straight side
+const MAX_CORNER_ANGLE = 155;
+// Lines, rectangles and ellipses this close (degrees) to horizontal or vertical are straightened
+const SNAP_ANGLE = 4;
+// Arrow heads: each barb at most this long relative to the shaft
+const MAX_HEAD_SIZE = 0.45;
+const ARROW_HEAD_ANGLE = 28;
+const MAX_SIDES = 8;
+
+const distance = (a: XY, b: XY) => Math.hypot(b.x - a.x, b.y - a.y);
+
+const pathLength = (points: XY[]) =>
+  points.reduce((length, point, i) => i === 0 ? 0 : length + distance(points[i - 1], point), 0);
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const maxDeviation = (points: XY[], from: XY, to: XY) =>
+  Math.max(...points.map(point => distanceToSegment(point, from, to)));
+
+// Ramer-Douglas-Peucker: the fewest points that keep the polyline within `tolerance`
+const simplify = (points: XY[], tolerance: number): XY[] => {
+  if (points.length < 3) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let farthest = 0;
+  let farthestIndex = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], first, last);
+    if (d > farthest) {
+      farthest = d;
+      farthestIndex = i;
+    }
+  }
+
+  if (farthest <= tolerance) return [first, last];
+  return [
+    ...simplify(points.slice(0, farthestIndex + 1), tolerance).slice(0, -1),
+    ...simplify(points.slice(farthestIndex), tolerance),
+  ];
+};
+
+// Interior angle at `b` in degrees; 180 is a straight continuation
+const cornerAngle = (a: XY, b: XY, c: XY) => {
+  const angle = Math.abs(Math.atan2(a.y - b.y, a.x - b.x) - Math.atan2(c.y - b.y, c.x - b.x));
+  return toDegrees(angle > Math.PI ? 2 * Math.PI - angle : angle);
+};
+
+// Corners of a closed stroke, dropping the ones that lie along a side
+const findCorners = (points: XY[], size: number): XY[] => {
+  const corners = simplify(points, size * CORNER_TOLERANCE).slice(0, -1);
+
+  let changed = true;
+  while (changed && corners.length > 3) {
+    changed = false;
+    for (let i = 0; i < corners.length; i++) {
+      const previous = corners[(i + corners.length - 1) % corners.length];
+      const next = corners[(i + 1) % corners.length];
+      if (cornerAngle(previous, corners[i], next) > MAX_CORNER_ANGLE || distance(previous, corners[i]) < size * CORNER_TOLERANCE) {
+        corners.splice(i, 1);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return corners;
+};
+
+// Angle in degrees, moved onto the nearest multiple of 90 when it is close to one
+const snapAngle = (angle: number) => {
+  const nearest = Math.round(angle / 90) * 90;
+  return Math.abs(angle - nearest) <= SNAP_ANGLE ? nearest : angle;
+};
+
+const straighten = (from: XY, to: XY): XY => {
+  const length = distance(from, to);
+  const angle = (snapAngle(toDegrees(Math.atan2(to.y - from.y, to.x - from.x))) * Math.PI) / 180;
+  return { x: from.x + Math.cos(angle) * length, y: from.y + Math.sin(angle) * length };
+};
+
+// Points in a frame turned by `angle` (radians) around `origin`, and back
+const rotate = (point: XY, origin: XY, angle: number): XY => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  return { x: origin.x + dx * cos - dy * sin, y: origin.y + dx * sin + dy * cos };
+};
+
+// The ellipse along the stroke's main axis, and how far the stroke strays from it (relative to its size)
+const fitEllipse = (points: XY[], size: number) => {
+  const mean = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  points.forEach(p => {
+    xx += (p.x - mean.x) ** 2;
+    yy += (p.y - mean.y) ** 2;
+    xy += (p.x - mean.x) * (p.y - mean.y);
+  });
+  const angle = (snapAngle(toDegrees(0.5 * Math.atan2(2 * xy, xx - yy))) * Math.PI) / 180;
+
+  const local = points.map(p => rotate(p, mean, -angle));
+  const minX = Math.min(...local.map(p => p.x));
+  const maxX = Math.max(...local.map(p => p.x));
+  const minY = Math.min(...local.map(p => p.y));
+  const maxY = Math.max(...local.map(p => p.y));
+  const rx = (maxX - minX) / 2;
+  const ry = (maxY - minY) / 2;
+  const localCenter = { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+  if (rx === 0 || ry === 0) return null;
+
+  const error = local.reduce((sum, p) => {
+    const radius = Math.hypot((p.x - localCenter.x) / rx, (p.y - localCenter.y) / ry);
+    return sum + Math.abs(radius - 1) * ((rx + ry) / 2);
+  }, 0) / local.length / size;
+
+  return { center: rotate(localCenter, mean, angle), rx, ry, angle: toDegrees(angle), error };
+};
+
+const polygonError = (points: XY[], corners: XY[], size: number) =>
+  points.reduce((sum, p) => sum + Math.min(...corners.map((corner, i) =>
+    distanceToSegment(p, corner, corners[(i + 1) % corners.length])
+  )), 0) / points.length / size;
+
+// Four corners near right angles become a (possibly turned) rectangle
+const toRectangle = (corners: XY[]): RecognizedShape | null => {
+  const isRight = corners.every((corner, i) =>
+    Math.abs(cornerAngle(corners[(i + 3) % 4], corner, corners[(i + 1) % 4]) - 90) <= 20
+  );
+  if (!isRight) return null;
+
+  const angle = snapAngle(toDegrees(Math.atan2(corners[1].y - corners[0].y, corners[1].x - corners[0].x)));
+  const radians = (angle * Math.PI) / 180;
+  const local = corners.map(p => rotate(p, corners[0], -radians));
+  const minX = Math.min(...local.map(p => p.x));
+  const maxX = Math.max(...local.map(p => p.x));
+  const minY = Math.min(...local.map(p => p.y));
+  const maxY = Math.max(...local.map(p => p.y));
+
+  return {
+    kind: 'rectangle',
+    center: rotate({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, corners[0], radians),
+    width: maxX - minX,
+    height: maxY - minY,
+    angle,
+  };
+};
+
+// A straight shaft from the start to the farthest point, then a short head drawn around that tip
+const toArrow = (points: XY[]): RecognizedShape | null => {
+  const start = points[0];
+  let tipIndex = 0;
+  points.forEach((p, i) => {
+    if (distance(start, p) > distance(start, points[tipIndex])) tipIndex = i;
+  });
+
+  const tip = points[tipIndex];
+  const shaft = points.slice(0, tipIndex + 1);
+  const head = points.slice(tipIndex);
+  const shaftLength = distance(start, tip);
+  if (head.length < 3 || shaftLength < MIN_SIZE * 2) return null;
+  if (maxDeviation(shaft, start, tip) > shaftLength * LINE_TOLERANCE) return null;
+
+  const headReach = Math.max(...head.map(p => distance(tip, p)));
+  if (headReach < shaftLength * 0.1 || headReach > shaftLength * MAX_HEAD_SIZE) return null;
+
+  return { kind: 'arrow', from: start, to: straighten(start, tip) };
+};
+
+// What a freehand stroke (as scene points) looks like it was meant to be, if anything
+export const recognizeShape = (stroke: Point[]): RecognizedShape | null => {
+  if (stroke.length < 2) return null;
+
+  const xs = stroke.map(p => p.x);
+  const ys = stroke.map(p => p.y);
+  const size = Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  if (size < MIN_SIZE) return null;
+
+  const start = stroke[0];
+  const end = stroke[stroke.length - 1];
+  const length = pathLength(stroke);
+
+  if (distance(start, end) > size * CLOSED_GAP) {
+    const chord = distance(start, end);
+    if (maxDeviation(stroke, start, end) <= chord * LINE_TOLERANCE) {
+      return { kind: 'line', from: start, to: straighten(start, end) };
+    }
+    return toArrow(stroke);
+  }
+
+  // Closed: evenly spaced points, so slow and fast parts of the stroke count the same
+  const points = densifyPolyline(stroke, Math.max(length / 200, 1));
+  const ellipse = fitEllipse(points, size);
+  const corners = findCorners([...stroke, start], size);
+
+  if (corners.length >= 3 && corners.length <= MAX_SIDES) {
+    const error = polygonError(points, corners, size);
+    if (error <= FIT_TOLERANCE && (!ellipse || error < ellipse.error)) {
+      if (corners.length === 4) {
+        const rectangle = toRectangle(corners);
+        if (rectangle) return rectangle;
+      }
+      return { kind: 'polygon', points: corners };
+    }
+  }
+
+  if (ellipse && ellipse.error <= FIT_TOLERANCE) {
+    const { center, rx, ry, angle } = ellipse;
+    // Nearly round is meant to be a circle
+    if (Math.min(rx, ry) / Math.max(rx, ry) > 0.85) {
+      const radius = (rx + ry) / 2;
+      return { kind: 'ellipse', center, rx: radius, ry: radius, angle: 0 };
+    }
+    return { kind: 'ellipse', center, rx, ry, angle };
+  }
+
+  return null;
+};
+
+// Name for messages, e.g. "Snapped to a triangle"
+export const describeShape = (shape: RecognizedShape): string => {
+  switch (shape.kind) {
+    case 'ellipse':
+      return shape.rx === shape.ry ? 'circle' : 'ellipse';
+    case 'polygon':
+      return shape.points.length === 3 ? 'triangle' : 'polygon';
+    default:
+      return shape.kind;
+  }
+};
+
+// The clean shape, drawn in the stroke's colour and width and placed on its layer
+export const createShapeObject = (shape: RecognizedShape, stroke: FabricObject): FabricObject => {
+  const style = {
+    stroke: stroke.stroke,
+    // A pressure stroke snaps to its average width
+    strokeWidth: stroke instanceof PressurePath ? stroke.strokeWidth * stroke.getAverageWidth() : stroke.strokeWidth,
+    strokeLineCap: 'round' as const,
+    strokeLineJoin: 'round' as const,
+    fill: 'transparent',
+    opacity: stroke.opacity,
+  };
+  let obj: FabricObject;
+
+  switch (shape.kind) {
+    case 'line':
+      obj = new Line([shape.from.x, shape.from.y, shape.to.x, shape.to.y], style);
+      break;
+    case 'arrow': {
+      const { from, to } = shape;
+      const direction = Math.atan2(from.y - to.y, from.x - to.x);
+      const barb = Math.min(distance(from, to) * 0.25, 24);
+      const [left, right] = [1, -1].map(side => {
+        const angle = direction + side * ((ARROW_HEAD_ANGLE * Math.PI) / 180);
+        return { x: to.x + Math.cos(angle) * barb, y: to.y + Math.sin(angle) * barb };
+      });
+      obj = new Path(
+        `M ${from.x} ${from.y} L ${to.x} ${to.y} M ${left.x} ${left.y} L ${to.x} ${to.y} L ${right.x} ${right.y}`,
+        { ...style, fill: null }
+      );
+      break;
+    }
+    case 'ellipse': {
+      const centered = { left: shape.center.x, top: shape.center.y, originX: 'center' as const, originY: 'center' as const, angle: shape.angle };
+      obj = shape.rx === shape.ry
+        ? new Circle({ ...style, ...centered, radius: shape.rx })
+        : new Ellipse({ ...style, ...centered, rx: shape.rx, ry: shape.ry });
+      break;
+    }
+    case 'rectangle':
+      obj = new Rect({
+        ...style,
+        left: shape.center.x,
+        top: shape.center.y,
+        originX: 'center',
+        originY: 'center',
+        width: shape.width,
+        height: shape.height,
+        angle: shape.angle,
+      });
+      break;
+    case 'polygon':
+      obj = new Polygon(shape.points, style);
+      break;
+  }
+
+  setObjectLayer(obj, getObjectLayer(stroke));
+  return obj;
+};
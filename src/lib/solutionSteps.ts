@@ -0,0 +1,54 @@
+import type { SceneBounds } from "@/lib/canvasObjects";
+
+// One line of the student's worked solution
+export interface SolutionStep {
+  // 1-based position in reading order (top to bottom, then left to right)
+  number: number;
+  text: string;
+  // Approximate scene area of the line: its OCR region sliced evenly by line
+  bounds: SceneBounds;
+  // Not present in the previous list of steps
+  isNew: boolean;
+}
+
+interface TextRegion {
+  bounds: SceneBounds;
+  text: string;
+}
+
+// Region text only says which lines it holds, not where, so each line gets an equal slice of its region
+const splitRegion = (region: TextRegion) => {
+  const lines = region.text.split('\n').map(line => line.trim()).filter(Boolean);
+  const lineHeight = (region.bounds.bottom - region.bounds.top) / Math.max(lines.length, 1);
+
+  return lines.map((text, i) => ({
+    text,
+    bounds: {
+      left: region.bounds.left,
+      right: region.bounds.right,
+      top: region.bounds.top + i * lineHeight,
+      bottom: region.bounds.top + (i + 1) * lineHeight,
+    },
+  }));
+};
+
+// Order every OCR'd line by canvas position and mark the ones that weren't there before.
+// Lines are matched by text, so rereading a region doesn't make its old lines new.
+export const buildSolutionSteps = (regions: TextRegion[], previous: SolutionStep[]): SolutionStep[] => {
+  const unmatched = previous.map(step => step.text);
+  const center = (bounds: SceneBounds) => (bounds.top + bounds.bottom) / 2;
+
+  return regions
+    .flatMap(splitRegion)
+    .sort((a, b) => center(a.bounds) - center(b.bounds) || a.bounds.left - b.bounds.left)
+    .map((line, i) => {
+      const match = unmatched.indexOf(line.text);
+      if (match !== -1) unmatched.splice(match, 1);
+      return { number: i + 1, text: line.text, bounds: line.bounds, isNew: match === -1 };
+    });
+};
+
+// "Step 1: ...", one per line, for prompts
+export const formatSolutionSteps = (steps: SolutionStep[]) => {
+  return steps.map(step => `Step ${step.number}: ${step.text}`).join('\n');
+};
@@ -0,0 +1,222 @@
+import { Circle, Line, Path, Point, Rect, util, type FabricObject, type TSimplePathData, type XY } from "fabric";
+
+const CURVE_SAMPLES = 8;
+
+export const distanceToSegment = (point: XY, a: XY, b: XY): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+export const distanceToPolyline = (point: XY, points: XY[]): number => {
+  if (points.length === 1) return Math.hypot(point.x - points[0].x, point.y - points[0].y);
+
+  let min = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    min = Math.min(min, distanceToSegment(point, points[i - 1], points[i]));
+  }
+  return min;
+};
+
+const cross = (o: XY, a: XY, b: XY) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const segmentsIntersect = (a1: XY, a2: XY, b1: XY, b2: XY): boolean => {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+// Shortest distance between two segments (used to sweep the eraser between pointer events)
+const segmentDistance = (a1: XY, a2: XY, b1: XY, b2: XY): number => {
+  if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+
+  return Math.min(
+    distanceToSegment(a1, b1, b2),
+    distanceToSegment(a2, b1, b2),
+    distanceToSegment(b1, a1, a2),
+    distanceToSegment(b2, a1, a2)
+  );
+};
+
+// Average scale applied to an object, used to turn local stroke widths into scene widths
+export const getAverageScale = (obj: FabricObject): number => {
+  const { scaleX, scaleY } = util.qrDecompose(obj.calcTransformMatrix());
+  return (Math.abs(scaleX) + Math.abs(scaleY)) / 2;
+};
+
+// Flatten a path's commands into a polyline in scene coordinates
+export const getPathScenePoints = (path: Path): Point[] => {
+  const matrix = path.calcTransformMatrix();
+  const offset = path.pathOffset;
+  const local: XY[] = [];
+  let current: XY = { x: 0, y: 0 };
+  let start: XY = { x: 0, y: 0 };
+
+  for (const command of path.path as TSimplePathData) {
+    switch (command[0]) {
+      case 'M':
+        current = { x: command[1], y: command[2] };
+        start = current;
+        local.push(current);
+        break;
+      case 'L':
+        current = { x: command[1], y: command[2] };
+        local.push(current);
+        break;
+      case 'Q': {
+        const [, cx, cy, x, y] = command;
+        for (let i = 1; i <= CURVE_SAMPLES; i++) {
+          const t = i / CURVE_SAMPLES;
+          const mt = 1 - t;
+          local.push({
+            x: mt * mt * current.x + 2 * mt * t * cx + t * t * x,
+            y: mt * mt * current.y + 2 * mt * t * cy + t * t * y,
+          });
+        }
+        current = { x, y };
+        break;
+      }
+      case 'C': {
+        const [, c1x, c1y, c2x, c2y, x, y] = command;
+        for (let i = 1; i <= CURVE_SAMPLES; i++) {
+          const t = i / CURVE_SAMPLES;
+          const mt = 1 - t;
+          local.push({
+            x: mt * mt * mt * current.x + 3 * mt * mt * t * c1x + 3 * mt * t * t * c2x + t * t * t * x,
+            y: mt * mt * mt * current.y + 3 * mt * mt * t * c1y + 3 * mt * t * t * c2y + t * t * t * y,
+          });
+        }
+        current = { x, y };
+        break;
+      }
+      case 'Z':
+        current = start;
+        local.push(start);
+        break;
+    }
+  }
+
+  return local.map(point => util.transformPoint(
+    new Point(point.x - offset.x, point.y - offset.y),
+    matrix
+  ));
+};
+
+// Insert points so no two neighbours are further apart than `step`
+export const densifyPolyline = (points: Point[], step: number): Point[] => {
+  if (points.length < 2) return points;
+
+  const result: Point[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const segments = Math.ceil(from.distanceFrom(to) / step);
+    for (let s = 1; s <= segments; s++) {
+      result.push(from.lerp(to, s / segments));
+    }
+  }
+  return result;
+};
+
+// Split a stroke where the eraser segment passes, returning the surviving runs
+export const splitPolylineBySegment = (
+  points: Point[],
+  eraserFrom: XY,
+  eraserTo: XY,
+  radius: number
+): Point[][] => {
+  const runs: Point[][] = [];
+  let run: Point[] = [];
+
+  for (const point of points) {
+    if (distanceToSegment(point, eraserFrom, eraserTo) <= radius) {
+      if (run.length > 1) runs.push(run);
+      run = [];
+    } else {
+      run.push(point);
+    }
+  }
+  if (run.length > 1) runs.push(run);
+
+  return runs;
+};
+
+export const polylineIntersectsSegment = (points: XY[], from: XY, to: XY, radius: number): boolean => {
+  if (points.length === 1) return distanceToSegment(points[0], from, to) <= radius;
+
+  for (let i = 1; i < points.length; i++) {
+    if (segmentDistance(points[i - 1], points[i], from, to) <= radius) return true;
+  }
+  return false;
+};
+
+const hasVisibleFill = (obj: FabricObject) => {
+  return !!obj.fill && obj.fill !== 'transparent' && obj.fill !== 'rgba(0,0,0,0)';
+};
+
+// Hit test against what is actually drawn: the stroke of paths, lines and outlines,
+// and the filled area only when a shape is filled
+export const hitTestObject = (obj: FabricObject, point: Point, tolerance: number): boolean => {
+  const halfStroke = ((obj.strokeWidth || 0) * getAverageScale(obj)) / 2;
+  const reach = halfStroke + tolerance;
+
+  if (obj instanceof Path) {
+    return distanceToPolyline(point, getPathScenePoints(obj)) <= reach;
+  }
+
+  if (obj instanceof Line) {
+    const { x1, y1, x2, y2 } = obj.calcLinePoints();
+    const matrix = obj.calcTransformMatrix();
+    const a = util.transformPoint(new Point(x1, y1), matrix);
+    const b = util.transformPoint(new Point(x2, y2), matrix);
+    return distanceToSegment(point, a, b) <= reach;
+  }
+
+  if (obj instanceof Circle) {
+    const center = obj.getCenterPoint();
+    const radius = obj.radius * getAverageScale(obj);
+    const distance = center.distanceFrom(point);
+    return Math.abs(distance - radius) <= reach || (hasVisibleFill(obj) && distance <= radius);
+  }
+
+  if (obj instanceof Rect) {
+    // The corner coordinates sit on the outer edge of the stroke
+    const [tl, tr, br, bl] = obj.getCoords();
+    const outline = [tl, tr, br, bl, tl];
+    return distanceToPolyline(point, outline) <= halfStroke * 2 + tolerance
+      || (hasVisibleFill(obj) && obj.containsPoint(point));
+  }
+
+  // Text, images and anything else: use the rotated outline rather than the axis-aligned box
+  return obj.containsPoint(point);
+};
+
+// Even-odd rule; the polygon is closed implicitly
+export const isPointInPolygon = (point: XY, polygon: XY[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Whether a lasso loop takes in an object: most of a stroke's points, or the middle of anything else
+export const isInsideLasso = (obj: FabricObject, polygon: XY[], share = 0.6): boolean => {
+  if (polygon.length < 3) return false;
+  if (!(obj instanceof Path)) return isPointInPolygon(obj.getCenterPoint(), polygon);
+
+  const points = getPathScenePoints(obj);
+  const inside = points.filter(point => isPointInPolygon(point, polygon)).length;
+  return points.length > 0 && inside / points.length >= share;
+};
@@ -0,0 +1,91 @@
+import { Ellipse, Group, Line, Textbox, Triangle, type FabricObject } from "fabric";
+import type { TutorAnnotation } from "@/services/api";
+import { TUTOR_ANNOTATION_NAME } from "@/lib/canvasObjects";
+
+const ANNOTATION_COLOR = "#e11d48";
+const ANNOTATION_WIDTH = 2;
+// Room left between a mark and the line it points at
+const ANNOTATION_GAP = 8;
+const ARROW_LENGTH = 56;
+const NOTE_WIDTH = 180;
+
+const stroke = { stroke: ANNOTATION_COLOR, strokeWidth: ANNOTATION_WIDTH, fill: 'transparent' };
+
+const createMarkParts = ({ type, bounds, text }: TutorAnnotation): FabricObject[] => {
+  const { left, top, right, bottom } = bounds;
+  const middle = (top + bottom) / 2;
+
+  switch (type) {
+    case 'circle':
+      return [new Ellipse({
+        ...stroke,
+        left: left - ANNOTATION_GAP,
+        top: top - ANNOTATION_GAP,
+        rx: (right - left) / 2 + ANNOTATION_GAP,
+        ry: (bottom - top) / 2 + ANNOTATION_GAP,
+      })];
+    case 'underline':
+      return [new Line([left, bottom + ANNOTATION_GAP / 2, right, bottom + ANNOTATION_GAP / 2], stroke)];
+    case 'arrow': {
+      // From the left margin, pointing right at the start of the line
+      const tip = left - ANNOTATION_GAP;
+      return [
+        new Line([tip - ARROW_LENGTH, middle, tip - 6, middle], stroke),
+        new Triangle({
+          left: tip - 6,
+          top: middle,
+          width: 12,
+          height: 12,
+          angle: 90,
+          originX: 'center',
+          originY: 'center',
+          fill: ANNOTATION_COLOR,
+        }),
+      ];
+    }
+    case 'note':
+      // In the right margin, level with the line
+      return [
+        new Line([right + ANNOTATION_GAP / 2, middle, right + 2 * ANNOTATION_GAP, middle], stroke),
+        new Textbox(text ?? '', {
+          left: right + 2 * ANNOTATION_GAP,
+          top: middle - 10,
+          width: NOTE_WIDTH,
+          fontSize: 16,
+          fontFamily: 'Arial',
+          fill: ANNOTATION_COLOR,
+          backgroundColor: '#fff1f2',
+        }),
+      ];
+  }
+};
+
+// The mark as one object, outside the student's work until accepted: it can't be picked,
+// erased or saved, and is left out of exports and OCR
+export const createAnnotationObject = (annotation: TutorAnnotation): Group => {
+  const group = new Group(createMarkParts(annotation), {
+    selectable: false,
+    evented: false,
+    excludeFromExport: true,
+  });
+  group.set({ name: TUTOR_ANNOTATION_NAME });
+  return group;
+};
+
+// Turn a mark into an ordinary object the student owns. It stays tagged as the tutor's,
+// so exports can leave it out.
+export const acceptAnnotationObject = (obj: FabricObject) => {
+  obj.set({
+    name: undefined,
+    tutorMark: true,
+    selectable: true,
+    evented: true,
+    excludeFromExport: false,
+  });
+};
+
+// Short label for the list of marks, e.g. "Circle on step 3"
+export const describeAnnotation = ({ type, step, text }: TutorAnnotation): string => {
+  if (type === 'note') return `Step ${step}: "${text}"`;
+  return `${type.charAt(0).toUpperCase()}${type.slice(1)} on step ${step}`;
+};
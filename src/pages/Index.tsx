@@ -1,18 +1,71 @@
-
-import { useState } from "react";
-import { BookOpen, Brain } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { BookOpen, Brain, Library } from "lucide-react";
+import { toast } from "sonner";
 import { ImageUpload } from "@/components/ImageUpload";
 import { DrawingCanvas } from "@/components/DrawingCanvas";
 import { AIChat } from "@/components/AIChat";
+import { LiveCommentaryComponent } from "@/components/LiveCommentary";
 import { PersonalitySelector } from "@/components/PersonalitySelector";
+import { CanvasSnapshotProvider } from "@/components/CanvasSnapshotProvider";
+import { ExercisePanel } from "@/components/ExercisePanel";
+import { PageStrip } from "@/components/PageStrip";
+import { ExportDialog } from "@/components/ExportDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useNotebookSession } from "@/hooks/use-notebook-session";
+import { CommentaryRoute, useLiveCommentary } from "@/hooks/use-live-commentary";
+import { useExercise } from "@/hooks/use-exercise";
+import { useNotebookPages } from "@/hooks/use-notebook-pages";
+import { notebookStorage, NotebookMessage, NotebookSession } from "@/services/notebookStorage";
+import { canvasAnalysisService } from "@/services/canvasAnalysis";
 
-const Index = () => {
-  const [selectedPersonality, setSelectedPersonality] = useState<'calm' | 'angry' | 'cool' | 'lazy'>('calm');
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+interface NotebookWorkspaceProps {
+  session: NotebookSession;
+  isSaving: boolean;
+  onSessionChange: ReturnType<typeof useNotebookSession>['saveChanges'];
+}
+
+const NotebookWorkspace = ({ session, isSaving, onSessionChange }: NotebookWorkspaceProps) => {
+  const [selectedPersonality, setSelectedPersonality] = useState<'calm' | 'angry' | 'cool' | 'lazy'>(session.personality);
+  const [notebookName, setNotebookName] = useState(session.name);
+  const [isCommentaryVoiceEnabled, setIsCommentaryVoiceEnabled] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // The chat as last reported, for the transcript in exports
+  const messagesRef = useRef<NotebookMessage[]>(session.messages);
+  const { route: commentaryRoute, setRoute: setCommentaryRoute, panelCommentary, chatCommentary, clearPanel } = useLiveCommentary(selectedPersonality);
+  // Saving pages also clears the single canvas that notebooks had before pages
+  const { pages, activePage, activePageNumber, selectPage, addPage, duplicatePage, movePage, deletePage, updatePage } = useNotebookPages(
+    session,
+    ({ pages, activePageId }) => onSessionChange({ pages, activePageId, canvas: null, exercise: null })
+  );
+  const { exercise, isReading: isReadingExercise, loadExercise, retry: retryExercise, clearExercise } = useExercise(
+    activePage.exercise,
+    (exercise) => updatePage(activePage.id, { exercise }),
+    activePage.id
+  );
+  const pageContext = useMemo(() => ({ number: activePageNumber, count: pages.length }), [activePageNumber, pages.length]);
+
+  // Live comments are about the open page
+  useEffect(() => {
+    canvasAnalysisService.setPage(pageContext);
+    return () => canvasAnalysisService.setPage(null);
+  }, [pageContext]);
+
+  const handlePersonalityChange = (personality: 'calm' | 'angry' | 'cool' | 'lazy') => {
+    setSelectedPersonality(personality);
+    onSessionChange({ personality });
+  };
+
+  const handleMessagesChange = (messages: NotebookMessage[]) => {
+    messagesRef.current = messages;
+    onSessionChange({ messages });
+  };
 
-  const handleAnalyzeCanvas = () => {
-    // This would integrate with actual AI analysis
-    console.log("Analyzing canvas with", selectedPersonality, "personality");
+  const handleNameChange = (name: string) => {
+    setNotebookName(name);
+    onSessionChange({ name: name.trim() || 'Untitled notebook' });
   };
 
   return (
@@ -29,13 +82,45 @@ const Index = () => {
                 <h1 className="text-xl font-bold text-foreground">SenpAI</h1>
                 <p className="text-sm text-muted-foreground">AI-powered learning companion</p>
               </div>
+
+              <div className="flex items-center gap-2 ml-4">
+                <Input
+                  value={notebookName}
+                  onChange={(e) => handleNameChange(e.target.value)}
+                  className="h-8 w-56"
+                  aria-label="Notebook name"
+                />
+                <span className="text-xs text-muted-foreground w-14">
+                  {isSaving ? "Saving..." : "Saved"}
+                </span>
+              </div>
             </div>
-            
+
             <div className="flex items-center gap-4">
-              <ImageUpload onImageUpload={setUploadedImage} />
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <Link to="/notebooks">
+                  <Library className="h-4 w-4" />
+                  Notebooks
+                </Link>
+              </Button>
+              <Select value={commentaryRoute} onValueChange={(value) => setCommentaryRoute(value as CommentaryRoute)}>
+                <SelectTrigger className="h-9 w-44" aria-label="Where live feedback appears">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="panel">Live feedback: panel</SelectItem>
+                  <SelectItem value="chat">Live feedback: chat</SelectItem>
+                  <SelectItem value="both">Live feedback: both</SelectItem>
+                </SelectContent>
+              </Select>
+              <ImageUpload
+                image={exercise?.image}
+                onImageUpload={loadExercise}
+                onImageRemove={clearExercise}
+              />
               <PersonalitySelector
                 selectedPersonality={selectedPersonality}
-                onPersonalityChange={setSelectedPersonality}
+                onPersonalityChange={handlePersonalityChange}
               />
             </div>
           </div>
@@ -53,10 +138,32 @@ const Index = () => {
                 <h2 className="text-lg font-semibold text-foreground">Work Area</h2>
                 <p className="text-sm text-muted-foreground">Draw, write, and solve your exercise here</p>
               </div>
-              
-              <DrawingCanvas 
+
+              <PageStrip
+                pages={pages}
+                activePageId={activePage.id}
+                onSelect={selectPage}
+                onAdd={addPage}
+                onDuplicate={duplicatePage}
+                onMove={movePage}
+                onDelete={deletePage}
+              />
+
+              {exercise && (
+                <ExercisePanel exercise={exercise} isReading={isReadingExercise} onRetry={retryExercise} />
+              )}
+
+              {/* One canvas per page: switching pages starts the drawing and its analysis afresh */}
+              <DrawingCanvas
+                key={activePage.id}
                 className="bg-gradient-to-br from-canvas-bg to-notebook-paper shadow-notebook"
                 selectedPersonality={selectedPersonality}
+                initialContent={activePage.canvas}
+                onContentChange={(canvas) => updatePage(activePage.id, { canvas })}
+                onThumbnailChange={(thumbnail) => updatePage(activePage.id, { thumbnail })}
+                exerciseImage={exercise?.image}
+                onExerciseUpload={loadExercise}
+                onExport={() => setIsExportOpen(true)}
               />
             </div>
           </div>
@@ -65,16 +172,44 @@ const Index = () => {
           <div className="lg:col-span-1">
             <AIChat
               selectedPersonality={selectedPersonality}
-              onAnalyzeCanvas={handleAnalyzeCanvas}
+              initialMessages={session.messages}
+              onMessagesChange={handleMessagesChange}
+              liveCommentary={chatCommentary}
+              exercise={exercise}
+              page={pageContext}
               className="h-full shadow-chat bg-gradient-to-br from-card to-background"
             />
           </div>
         </div>
       </div>
 
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        notebookName={notebookName}
+        personality={selectedPersonality}
+        pages={pages}
+        activePageId={activePage.id}
+        getMessages={() => messagesRef.current}
+      />
+
+      {/* Floating live commentary */}
+      {commentaryRoute !== 'chat' && (
+        <div className="fixed bottom-4 right-4 z-50 w-80">
+          <LiveCommentaryComponent
+            commentary={panelCommentary}
+            personality={selectedPersonality}
+            isVoiceEnabled={isCommentaryVoiceEnabled}
+            onToggleVoice={() => setIsCommentaryVoiceEnabled(enabled => !enabled)}
+            onClear={clearPanel}
+            className="shadow-lg"
+          />
+        </div>
+      )}
+
       {/* Subtle paper texture overlay */}
-      <div 
-        className="fixed inset-0 pointer-events-none opacity-5" 
+      <div
+        className="fixed inset-0 pointer-events-none opacity-5"
         style={{
           backgroundImage: "url(\"data:image/svg+xml,%3Csvg width='40' height='40' viewBox='0 0 40 40' xmlns='http://www.w3.org/2000/svg'%3E%3Cg fill='none' fill-rule='evenodd'%3E%3Cg fill='%23000' fill-opacity='0.1'%3E%3Ccircle cx='20' cy='20' r='1'/%3E%3C/g%3E%3C/g%3E%3C/svg%3E\")"
         }}
@@ -83,4 +218,62 @@ const Index = () => {
   );
 };
 
+const Index = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { session, isLoading, isSaving, saveChanges } = useNotebookSession(sessionId);
+
+  // "/" reopens the last notebook, or starts a fresh one
+  useEffect(() => {
+    if (sessionId) return;
+
+    let cancelled = false;
+    const openNotebook = async () => {
+      try {
+        const lastSessionId = notebookStorage.getLastSessionId();
+        const lastSession = lastSessionId ? await notebookStorage.getSession(lastSessionId) : null;
+        const target = lastSession ?? await notebookStorage.createSession('Untitled notebook');
+
+        if (!cancelled) {
+          navigate(`/notebook/${target.id}`, { replace: true });
+        }
+      } catch (error) {
+        console.error('Failed to open notebook:', error);
+        toast.error("Couldn't open your notebooks");
+      }
+    };
+
+    openNotebook();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, navigate]);
+
+  useEffect(() => {
+    if (sessionId && !isLoading && !session) {
+      toast.error("That notebook doesn't exist anymore");
+      navigate('/notebooks', { replace: true });
+    }
+  }, [sessionId, isLoading, session, navigate]);
+
+  if (!session || session.id !== sessionId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <p className="text-sm text-muted-foreground">Opening notebook...</p>
+      </div>
+    );
+  }
+
+  return (
+    <CanvasSnapshotProvider>
+      <NotebookWorkspace
+        key={session.id}
+        session={session}
+        isSaving={isSaving}
+        onSessionChange={saveChanges}
+      />
+    </CanvasSnapshotProvider>
+  );
+};
+
 export default Index;
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, BookOpen, Copy, FileDown, FileUp, FolderOpen, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DOODLE_FILE_EXTENSION, readDoodleFile, writeDoodleFile } from "@/lib/doodleFile";
+import { downloadFile, toFileName } from "@/lib/notebookExport";
+import { getNotebookPages, notebookStorage, NotebookSessionSummary } from "@/services/notebookStorage";
+
+const Notebooks = () => {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<NotebookSessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [sessionToDelete, setSessionToDelete] = useState<NotebookSessionSummary | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await notebookStorage.listSessions());
+    } catch (error) {
+      console.error('Failed to load notebooks:', error);
+      toast.error("Couldn't load your notebooks");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleCreate = async () => {
+    try {
+      const session = await notebookStorage.createSession('Untitled notebook');
+      navigate(`/notebook/${session.id}`);
+    } catch (error) {
+      toast.error("Couldn't create a notebook");
+    }
+  };
+
+  const handleDuplicate = async (session: NotebookSessionSummary) => {
+    try {
+      await notebookStorage.duplicateSession(session.id);
+      toast(`Duplicated "${session.name}"`);
+      await loadSessions();
+    } catch (error) {
+      toast.error("Couldn't duplicate the notebook");
+    }
+  };
+
+  const handleExport = async (summary: NotebookSessionSummary) => {
+    try {
+      const session = await notebookStorage.getSession(summary.id);
+      if (!session) {
+        throw new Error('Notebook session not found');
+      }
+      const file = await writeDoodleFile({ ...session, pages: getNotebookPages(session) });
+      downloadFile(file, `${toFileName(session.name)}${DOODLE_FILE_EXTENSION}`);
+    } catch (error) {
+      toast.error("Couldn't export the notebook");
+    }
+  };
+
+  // Imported files become new notebooks and open straight away
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const session = await notebookStorage.importSession(await readDoodleFile(file));
+      toast(`Imported "${session.name}"`);
+      navigate(`/notebook/${session.id}`);
+    } catch (error) {
+      toast.error("Couldn't import that file");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!sessionToDelete) return;
+
+    try {
+      await notebookStorage.deleteSession(sessionToDelete.id);
+      toast(`Deleted "${sessionToDelete.name}"`);
+      await loadSessions();
+    } catch (error) {
+      toast.error("Couldn't delete the notebook");
+    } finally {
+      setSessionToDelete(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-primary/10">
+                <BookOpen className="h-6 w-6 text-primary" />
+              </div>
+              <div>
+                <h1 className="text-xl font-bold text-foreground">Your Notebooks</h1>
+                <p className="text-sm text-muted-foreground">Drawings and tutor conversations are saved in this browser</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <Link to="/">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" className="gap-2" onClick={() => importInputRef.current?.click()}>
+                <FileUp className="h-4 w-4" />
+                Import
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={`${DOODLE_FILE_EXTENSION},.json`}
+                onChange={handleImport}
+                className="hidden"
+              />
+              <Button size="sm" className="gap-2" onClick={handleCreate}>
+                <Plus className="h-4 w-4" />
+                New notebook
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading notebooks...</p>
+        ) : sessions.length === 0 ? (
+          <div className="text-center text-muted-foreground py-16">
+            <BookOpen className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p>No notebooks yet.</p>
+            <p className="text-sm">Start one and your work will be saved automatically.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {sessions.map((session) => (
+              <Card key={session.id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-foreground truncate">{session.name}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      Edited {formatDistanceToNow(new Date(session.updatedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge variant="secondary" className="text-xs capitalize">
+                    {session.personality}
+                  </Badge>
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  {session.pageCount} page{session.pageCount !== 1 ? 's' : ''} • {' '}
+                  {session.objectCount} canvas object{session.objectCount !== 1 ? 's' : ''} • {' '}
+                  {session.messageCount} question{session.messageCount !== 1 ? 's' : ''} asked
+                </p>
+
+                <div className="flex gap-2">
+                  <Button size="sm" className="gap-2" asChild>
+                    <Link to={`/notebook/${session.id}`}>
+                      <FolderOpen className="h-4 w-4" />
+                      Open
+                    </Link>
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => handleDuplicate(session)}>
+                    <Copy className="h-4 w-4" />
+                    Duplicate
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExport(session)} title={`Save as a ${DOODLE_FILE_EXTENSION} file`}>
+                    <FileDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setSessionToDelete(session)} title="Delete notebook">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!sessionToDelete} onOpenChange={(open) => !open && setSessionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{sessionToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The pages and the tutor conversation in this notebook will be removed permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Notebooks;
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiService, ChatStreamUnavailableError } from './api';
+
+const messages = [{ role: 'user' as const, content: 'Hi!' }];
+
+// A response streaming the given Server-Sent Events
+const eventStream = (...events: [string, unknown][]) => new Response(
+  events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join(''),
+  { headers: { 'Content-Type': 'text/event-stream' } }
+);
+
+const stream = (onToken: (token: string) => void = () => {}) => ApiService.streamChatMessage(messages, 'calm', onToken);
+
+describe('ApiService.streamChatMessage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('passes on tokens and resolves with the complete reply', async () => {
+    const done = { message: 'Hello', personality: 'calm', timestamp: '2024-05-01T10:00:00.000Z' };
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream(['token', { token: 'Hel' }], ['token', { token: 'lo' }], ['done', done])));
+    const tokens: string[] = [];
+
+    await expect(stream(token => tokens.push(token))).resolves.toEqual(done);
+    expect(tokens).toEqual(['Hel', 'lo']);
+  });
+
+  it('reports a server without a stream endpoint as unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Not found', { status: 404 })));
+
+    await expect(stream()).rejects.toBeInstanceOf(ChatStreamUnavailableError);
+  });
+
+  it('reports a server it cannot reach as unavailable', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+
+    await expect(stream()).rejects.toBeInstanceOf(ChatStreamUnavailableError);
+  });
+
+  it('passes on an error the server sends before any token', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => eventStream(['error', { error: 'Failed', details: 'Rate limited' }])));
+
+    const error = await stream().catch(error => error);
+
+    expect(error).not.toBeInstanceOf(ChatStreamUnavailableError);
+    expect(error.message).toBe('Failed to stream chat message: Rate limited');
+  });
+
+  it('does not treat a failing stream endpoint as missing', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Server error', { status: 500 })));
+
+    await expect(stream()).rejects.not.toBeInstanceOf(ChatStreamUnavailableError);
+  });
+});
@@ -1,3 +1,5 @@
+import type { SceneBounds } from '@/lib/canvasObjects';
+
 const API_BASE_URL = 'http://localhost:3001/api';
 
 export interface ChatMessage {
@@ -5,8 +7,35 @@ export interface ChatMessage {
   content: string;
 }
 
+// A line read off the canvas that the tutor can point at, in scene coordinates
+export interface AnnotationAnchor {
+  step: number;
+  text: string;
+  bounds: SceneBounds;
+}
+
+// A mark the tutor puts on the student's page, placed on the line it refers to
+export interface TutorAnnotation {
+  type: 'circle' | 'underline' | 'arrow' | 'note';
+  step: number;
+  bounds: SceneBounds;
+  // The margin note's text
+  text?: string;
+}
+
+// What the tutor is told about the student's work along with a chat message
+export interface ChatContext {
+  // The exercise being solved
+  exercise?: ExerciseDetails | null;
+  // The steps on the canvas, so the reply can mark them
+  regions?: AnnotationAnchor[];
+  // The notebook page the conversation is about
+  page?: NotebookPageContext | null;
+}
+
 export interface ChatResponse {
   message: string;
+  annotations?: TutorAnnotation[];
   personality: string;
   timestamp: string;
   audio?: string;
@@ -16,6 +45,7 @@ export interface ChatResponse {
 
 export interface AnalysisResponse {
   analysis: string;
+  annotations?: TutorAnnotation[];
   personality: string;
   timestamp: string;
 }
@@ -26,11 +56,54 @@ export interface OCRResponse {
   timestamp: string;
 }
 
+// An uploaded exercise, read once and split up so it can go along with every request
+export interface ExerciseDetails {
+  statement: string;
+  subQuestions: string[];
+  givenData: string[];
+  // Full OCR text of the exercise
+  text: string;
+}
+
+// The page of a multi-page notebook the student is on, so the tutor knows where the work is
+export interface NotebookPageContext {
+  // 1-based
+  number: number;
+  count: number;
+}
+
+// Only the structured parts are sent; the OCR text would just repeat them
+const toExerciseContext = (exercise: ExerciseDetails) => ({
+  statement: exercise.statement,
+  subQuestions: exercise.subQuestions,
+  givenData: exercise.givenData,
+});
+
+const parseServerSentEvent = (rawEvent: string) => {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  return { event, data: dataLines.length > 0 ? JSON.parse(dataLines.join('\n')) : null };
+};
+
+// The stream endpoint is missing or couldn't be reached, so nothing was sent back:
+// the reply can still be asked for without streaming
+export class ChatStreamUnavailableError extends Error {}
+
 export class ApiService {
   static async sendChatMessage(
     messages: ChatMessage[], 
     personality: string = 'calm',
-    includeVoice: boolean = false
+    includeVoice: boolean = false,
+    { exercise, regions, page }: ChatContext = {}
   ): Promise<ChatResponse> {
     try {
       const response = await fetch(`${API_BASE_URL}/chat`, {
@@ -41,7 +114,10 @@ export class ApiService {
         body: JSON.stringify({
           messages,
           personality,
-          includeVoice
+          includeVoice,
+          exercise: exercise ? toExerciseContext(exercise) : undefined,
+          regions,
+          page: page ?? undefined
         })
       });
 
@@ -57,6 +133,76 @@ export class ApiService {
     }
   }
 
+  // Streams the reply token by token over Server-Sent Events. Resolves with the
+  // complete response; rejects with an AbortError when `signal` is aborted, and with
+  // a ChatStreamUnavailableError when the server has no stream endpoint.
+  static async streamChatMessage(
+    messages: ChatMessage[],
+    personality: string = 'calm',
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    { exercise, page }: Pick<ChatContext, 'exercise' | 'page'> = {}
+  ): Promise<ChatResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/chat/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify({
+          messages,
+          personality,
+          exercise: exercise ? toExerciseContext(exercise) : undefined,
+          page: page ?? undefined
+        }),
+        signal
+      }).catch(error => {
+        if (signal?.aborted) throw error;
+        throw new ChatStreamUnavailableError(error.message);
+      });
+
+      if (response.status === 404) {
+        throw new ChatStreamUnavailableError(`HTTP error! status: ${response.status}`);
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() ?? '';
+
+        for (const rawEvent of events) {
+          const { event, data } = parseServerSentEvent(rawEvent);
+          if (!data) continue;
+
+          if (event === 'token') {
+            onToken(data.token);
+          } else if (event === 'done') {
+            return data as ChatResponse;
+          } else if (event === 'error') {
+            throw new Error(data.details || data.error);
+          }
+        }
+      }
+
+      throw new Error('Stream ended before the response was complete');
+    } catch (error) {
+      if (signal?.aborted || error instanceof ChatStreamUnavailableError) throw error;
+      console.error('Chat stream API Error:', error);
+      throw new Error('Failed to stream chat message: ' + error.message);
+    }
+  }
+
   static async generateVoice(text: string, personality: string = 'calm'): Promise<Blob> {
     try {
       const response = await fetch(`${API_BASE_URL}/voice`, {
@@ -84,7 +230,11 @@ export class ApiService {
   static async analyzeCanvas(
     canvasData?: Blob, 
     description?: string, 
-    personality: string = 'calm'
+    personality: string = 'calm',
+    extractedText?: string,
+    exercise?: ExerciseDetails | null,
+    regions?: AnnotationAnchor[],
+    page?: NotebookPageContext
   ): Promise<AnalysisResponse> {
     try {
       const formData = new FormData();
@@ -96,6 +246,22 @@ export class ApiService {
       if (description) {
         formData.append('description', description);
       }
+
+      if (extractedText) {
+        formData.append('extractedText', extractedText);
+      }
+
+      if (exercise) {
+        formData.append('exercise', JSON.stringify(toExerciseContext(exercise)));
+      }
+
+      if (regions && regions.length > 0) {
+        formData.append('regions', JSON.stringify(regions));
+      }
+
+      if (page) {
+        formData.append('page', JSON.stringify(page));
+      }
       
       formData.append('personality', personality);
 
@@ -142,6 +308,53 @@ export class ApiService {
     }
   }
 
+  // Read handwritten math as LaTeX
+  static async recognizeLatex(imageData: Blob): Promise<string> {
+    try {
+      const formData = new FormData();
+      formData.append('image', imageData, 'math.png');
+      formData.append('format', 'latex');
+
+      const response = await fetch(`${API_BASE_URL}/ocr`, {
+        method: 'POST',
+        body: formData
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const { extractedText } = await response.json();
+      return extractedText;
+    } catch (error) {
+      console.error('LaTeX OCR API Error:', error);
+      throw new Error('Failed to recognize math');
+    }
+  }
+
+  // OCR an exercise image and split it into statement, sub-questions and given data
+  static async extractExercise(imageData: Blob): Promise<ExerciseDetails> {
+    try {
+      const formData = new FormData();
+      formData.append('image', imageData, 'exercise.png');
+
+      const response = await fetch(`${API_BASE_URL}/exercise`, {
+        method: 'POST',
+        body: formData
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const { statement, subQuestions, givenData, text } = await response.json();
+      return { statement, subQuestions, givenData, text };
+    } catch (error) {
+      console.error('Exercise API Error:', error);
+      throw new Error('Failed to read exercise');
+    }
+  }
+
   static async checkHealth(): Promise<boolean> {
     try {
       const response = await fetch(`${API_BASE_URL.replace('/api', '')}/health`);
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Canvas as FabricCanvas } from 'fabric';
+import { ApiService } from './api';
+import { diffCanvas, fingerprintCanvas } from '@/lib/canvasChanges';
+import { CanvasAnalysisService } from './canvasAnalysis';
+
+vi.mock('./api', () => ({
+  ApiService: { performOCR: vi.fn(), sendChatMessage: vi.fn() },
+}));
+
+// Every analysis sees a large change in the same area
+vi.mock('@/lib/canvasChanges', () => ({
+  fingerprintCanvas: vi.fn(() => new Map()),
+  diffCanvas: vi.fn(() => ({ region: { left: 0, top: 0, width: 200, height: 40 }, significance: 1 })),
+}));
+
+vi.mock('@/lib/canvasObjects', () => ({
+  boundsIntersect: () => true,
+  expandBounds: (bounds: unknown) => bounds,
+  unionBounds: (bounds: unknown) => bounds,
+  getContentBounds: (_canvas: unknown, area: unknown) => area,
+  getObjectBounds: () => ({ left: 0, top: 0, width: 0, height: 0 }),
+  getWorkObjects: () => [],
+  exportRegionImage: async () => new Blob(['ink']),
+}));
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const canvas = {} as FabricCanvas;
+const annotation = { type: 'circle' as const, step: 1, bounds: { left: 0, top: 0, width: 200, height: 40 } };
+
+describe('CanvasAnalysisService', () => {
+  let service: CanvasAnalysisService;
+  let completed: unknown[];
+  let commentary: unknown[];
+  let annotations: unknown[];
+
+  beforeEach(() => {
+    vi.mocked(ApiService.performOCR).mockReset();
+    vi.mocked(ApiService.sendChatMessage).mockReset();
+    vi.mocked(diffCanvas).mockClear();
+    service = new CanvasAnalysisService();
+    completed = [];
+    commentary = [];
+    annotations = [];
+    service.on('analysis:completed', analysis => completed.push(analysis));
+    service.on('commentary', comment => commentary.push(comment));
+    service.on('annotations', marks => annotations.push(marks));
+  });
+
+  it('comments on the page it read', async () => {
+    vi.mocked(ApiService.performOCR).mockResolvedValue({ extractedText: '2x = 4', confidence: 0.9 } as never);
+    vi.mocked(ApiService.sendChatMessage).mockResolvedValue({ message: 'Good start', annotations: [annotation] } as never);
+
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(commentary).toHaveLength(1));
+
+    expect(completed).toHaveLength(1);
+    expect(annotations).toEqual([[annotation]]);
+    expect(service.getTranscript()).toBe('2x = 4');
+  });
+
+  it('keeps what was read when reading the same area again fails', async () => {
+    const errors: unknown[] = [];
+    service.on('error', error => errors.push(error));
+    vi.mocked(ApiService.performOCR).mockResolvedValueOnce({ extractedText: '2x = 4', confidence: 0.9 } as never);
+    vi.mocked(ApiService.sendChatMessage).mockResolvedValue({ message: 'Good start' } as never);
+
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(commentary).toHaveLength(1));
+    vi.mocked(ApiService.performOCR).mockRejectedValueOnce(new Error('Server error'));
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    await flush();
+
+    expect(completed).toHaveLength(1);
+    expect(service.getTranscript()).toBe('2x = 4');
+    expect(service.getSteps()).toHaveLength(1);
+  });
+
+  it('compares with the last canvas that was read, not one whose reading failed', async () => {
+    const errors: unknown[] = [];
+    service.on('error', error => errors.push(error));
+    const [failed, read, next] = [new Map(), new Map(), new Map()];
+    vi.mocked(fingerprintCanvas).mockReturnValueOnce(failed).mockReturnValueOnce(read).mockReturnValueOnce(next);
+    vi.mocked(ApiService.performOCR).mockRejectedValueOnce(new Error('Server error'));
+    vi.mocked(ApiService.performOCR).mockResolvedValue({ extractedText: '2x = 4', confidence: 0.9 } as never);
+    vi.mocked(ApiService.sendChatMessage).mockResolvedValue({ message: 'Good start' } as never);
+
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(completed).toHaveLength(1));
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(completed).toHaveLength(2));
+
+    const previous = vi.mocked(diffCanvas).mock.calls.map(([before]) => before);
+    expect(previous[1]).toBe(previous[0]);
+    expect(previous[2]).toBe(read);
+  });
+
+  it('drops a reading that finishes after the page changed', async () => {
+    const ocr = deferred<unknown>();
+    vi.mocked(ApiService.performOCR).mockReturnValue(ocr.promise as never);
+
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(ApiService.performOCR).toHaveBeenCalled());
+    service.resetCanvasState();
+    ocr.resolve({ extractedText: '2x = 4', confidence: 0.9 });
+    await flush();
+
+    expect(completed).toHaveLength(0);
+    expect(service.getRegions()).toEqual([]);
+    expect(service.getSteps()).toEqual([]);
+    expect(service.getLastAnalysis()).toBeNull();
+    expect(ApiService.sendChatMessage).not.toHaveBeenCalled();
+  });
+
+  it('drops commentary that arrives after the page changed', async () => {
+    const reply = deferred<unknown>();
+    vi.mocked(ApiService.performOCR).mockResolvedValue({ extractedText: '2x = 4', confidence: 0.9 } as never);
+    vi.mocked(ApiService.sendChatMessage).mockReturnValue(reply.promise as never);
+
+    await service.analyzeCanvas(canvas);
+    await vi.waitFor(() => expect(ApiService.sendChatMessage).toHaveBeenCalled());
+    service.resetCanvasState();
+    reply.resolve({ message: 'Good start', annotations: [annotation] });
+    await flush();
+
+    expect(commentary).toHaveLength(0);
+    expect(annotations).toHaveLength(0);
+  });
+});
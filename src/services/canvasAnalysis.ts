@@ -1,4 +1,25 @@
-import { ApiService } from './api';
+import type { Canvas as FabricCanvas } from 'fabric';
+import { ApiService, type AnnotationAnchor, type ExerciseDetails, type NotebookPageContext, type TutorAnnotation } from './api';
+import { TypedEventEmitter } from '@/lib/eventEmitter';
+import { verifyMathWork, type MathStepCheck, type MathVerification } from '@/lib/mathVerifier';
+import { buildSolutionSteps, formatSolutionSteps, type SolutionStep } from '@/lib/solutionSteps';
+import { diffCanvas, fingerprintCanvas, type CanvasChange, type CanvasFingerprint } from '@/lib/canvasChanges';
+import { getMathText, isMathObject } from '@/lib/mathObjects';
+import {
+  boundsIntersect,
+  expandBounds,
+  exportRegionImage,
+  getContentBounds,
+  getObjectBounds,
+  getWorkObjects,
+  unionBounds,
+  type SceneBounds,
+} from '@/lib/canvasObjects';
+
+// Changes below this significance (a stray dot, a nudge) don't trigger OCR
+const MIN_CHANGE_SIGNIFICANCE = 0.2;
+// Extra scene pixels read around a change so strokes cut by the crop stay legible
+const OCR_REGION_MARGIN = 24;
 
 export interface CanvasAnalysisResult {
   extractedText: string;
@@ -6,6 +27,21 @@ export interface CanvasAnalysisResult {
   timestamp: Date;
   hasSignificantChange: boolean;
   analysisType: 'text' | 'drawing' | 'mixed';
+  // What changed since the previous analysis (canvas analysis only)
+  change?: CanvasChange;
+  // Scene area that was read; extractedText is the text found there
+  region?: SceneBounds;
+  // Everything read on the canvas so far, top to bottom
+  transcript?: string;
+  // The same text as ordered solution steps, with the lines this pass added marked as new
+  steps?: SolutionStep[];
+}
+
+// Text read from one area of the canvas
+export interface OcrRegion {
+  bounds: SceneBounds;
+  text: string;
+  updatedAt: Date;
 }
 
 export interface LiveCommentary {
@@ -16,13 +52,49 @@ export interface LiveCommentary {
   isLiveCommentary: boolean;
 }
 
+export interface CanvasAnalysisError {
+  stage: 'ocr' | 'commentary' | 'analysis';
+  message: string;
+  error: unknown;
+}
+
+export interface CanvasAnalysisEvents {
+  'analysis:started': { timestamp: Date; change?: CanvasChange };
+  'analysis:completed': CanvasAnalysisResult;
+  'commentary': LiveCommentary;
+  // Marks the tutor wants on the page; each set replaces the previous one
+  'annotations': TutorAnnotation[];
+  'error': CanvasAnalysisError;
+  'queue:changed': { pending: number; isProcessing: boolean };
+}
+
+const toAnchors = (steps: SolutionStep[]): AnnotationAnchor[] => {
+  return steps.map(({ number, text, bounds }) => ({ step: number, text, bounds }));
+};
+
+// Typed math already has its text, so it is read from the objects rather than by OCR
+const readTypedMath = (canvas: FabricCanvas): OcrRegion[] => {
+  return getWorkObjects(canvas)
+    .filter(obj => obj.visible && !obj.excludeFromExport && isMathObject(obj))
+    .map(obj => ({ bounds: getObjectBounds(obj), text: getMathText(obj), updatedAt: new Date() }))
+    .filter(region => region.text);
+};
+
 export class CanvasAnalysisService {
   private lastAnalysis: CanvasAnalysisResult | null = null;
-  private lastImageData: string | null = null;
+  private lastFingerprint: CanvasFingerprint = new Map();
+  private regions: OcrRegion[] = [];
+  // Typed math on the canvas, refreshed on every pass
+  private typedRegions: OcrRegion[] = [];
+  private steps: SolutionStep[] = [];
   private isProcessing = false;
   private analysisQueue: (() => Promise<void>)[] = [];
-  private commentaryCallback: ((commentary: LiveCommentary) => void) | null = null;
+  // Goes up whenever a different canvas is opened; work started for an older one is discarded
+  private canvasGeneration = 0;
+  private events = new TypedEventEmitter<CanvasAnalysisEvents>();
   private personality: string = 'calm';
+  private exercise: ExerciseDetails | null = null;
+  private page: NotebookPageContext | null = null;
 
   constructor() {
     // No initialization needed for Mistral OCR
@@ -32,8 +104,35 @@ export class CanvasAnalysisService {
     this.personality = personality;
   }
 
-  setCommentaryCallback(callback: (commentary: LiveCommentary) => void) {
-    this.commentaryCallback = callback;
+  // The exercise the student is solving, given to the tutor with every comment
+  setExercise(exercise: ExerciseDetails | null) {
+    this.exercise = exercise;
+  }
+
+  // The notebook page being analysed, so comments say which page they are about
+  setPage(page: NotebookPageContext | null) {
+    this.page = page;
+  }
+
+  // Subscribe to analysis events; returns an unsubscribe function
+  on<K extends keyof CanvasAnalysisEvents>(event: K, listener: (payload: CanvasAnalysisEvents[K]) => void) {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends keyof CanvasAnalysisEvents>(event: K, listener: (payload: CanvasAnalysisEvents[K]) => void) {
+    this.events.off(event, listener);
+  }
+
+  private emitQueueChanged() {
+    this.events.emit('queue:changed', { pending: this.analysisQueue.length, isProcessing: this.isProcessing });
+  }
+
+  private emitError(stage: CanvasAnalysisError['stage'], error: unknown) {
+    this.events.emit('error', {
+      stage,
+      message: error instanceof Error ? error.message : String(error),
+      error,
+    });
   }
 
   private async processQueue() {
@@ -43,16 +142,19 @@ export class CanvasAnalysisService {
     
     while (this.analysisQueue.length > 0) {
       const task = this.analysisQueue.shift();
+      this.emitQueueChanged();
       if (task) {
         try {
           await task();
         } catch (error) {
           console.error('Canvas analysis task failed:', error);
+          this.emitError('analysis', error);
         }
       }
     }
     
     this.isProcessing = false;
+    this.emitQueueChanged();
   }
 
   private queueAnalysis(task: () => Promise<void>) {
@@ -62,45 +164,15 @@ export class CanvasAnalysisService {
     }
     
     this.analysisQueue.push(task);
+    this.emitQueueChanged();
     this.processQueue();
   }
 
-  private hasSignificantImageChange(newImageData: string): boolean {
-    if (!this.lastImageData) return true;
-    
-    // Simple change detection - compare image data length and a sample
-    const sizeDifference = Math.abs(newImageData.length - this.lastImageData.length);
-    const significantSizeChange = sizeDifference > 1000; // Threshold for significant change
-    
-    // Sample comparison at multiple points
-    const samplePoints = [0.25, 0.5, 0.75];
-    let differenceCount = 0;
-    
-    for (const point of samplePoints) {
-      const index = Math.floor(newImageData.length * point);
-      const oldIndex = Math.floor(this.lastImageData.length * point);
-      
-      if (index < newImageData.length && oldIndex < this.lastImageData.length) {
-        const newSample = newImageData.substr(index, 100);
-        const oldSample = this.lastImageData.substr(oldIndex, 100);
-        
-        if (newSample !== oldSample) {
-          differenceCount++;
-        }
-      }
-    }
-    
-    return significantSizeChange || differenceCount >= 2;
-  }
-
-  private async performOCR(imageData: string): Promise<{ text: string; confidence: number }> {
+  // The text in the image, or null when it couldn't be read
+  private async performOCR(image: Blob): Promise<{ text: string; confidence: number } | null> {
     try {
-      // Convert data URL to blob
-      const response = await fetch(imageData);
-      const blob = await response.blob();
-      
       // Use Mistral OCR via API
-      const ocrResult = await ApiService.performOCR(blob);
+      const ocrResult = await ApiService.performOCR(image);
       
       return {
         text: ocrResult.extractedText,
@@ -108,17 +180,17 @@ export class CanvasAnalysisService {
       };
     } catch (error) {
       console.error('Mistral OCR processing failed:', error);
-      return { text: '', confidence: 0 };
+      this.emitError('ocr', error);
+      return null;
     }
   }
 
-  private determineAnalysisType(extractedText: string, imageData: string): 'text' | 'drawing' | 'mixed' {
+  private determineAnalysisType(extractedText: string, imageSize: number): 'text' | 'drawing' | 'mixed' {
     const textLength = extractedText.replace(/\s/g, '').length;
     const hasText = textLength > 5;
-    const imageSize = imageData.length;
     
     // Heuristic: if we have significant text and the image is large, it's mixed
-    if (hasText && imageSize > 50000) {
+    if (hasText && imageSize > 37500) {
       return 'mixed';
     } else if (hasText) {
       return 'text';
@@ -127,9 +199,10 @@ export class CanvasAnalysisService {
     }
   }
 
-  private async generateLiveCommentary(analysis: CanvasAnalysisResult): Promise<void> {
-    if (!this.commentaryCallback) {
-      console.log('No commentary callback set');
+  private async generateLiveCommentary(analysis: CanvasAnalysisResult, generation = this.canvasGeneration): Promise<void> {
+    // Nobody is listening, so don't spend an API call
+    if (!this.events.hasListeners('commentary')) {
+      console.log('No commentary listeners');
       return;
     }
 
@@ -138,12 +211,14 @@ export class CanvasAnalysisService {
     try {
       let triggerReason = '';
       let commentType: LiveCommentary['type'] = 'correction';
+      const verification = this.verifyNewWork(analysis);
       
       // Determine trigger reason and comment type with better logic
       if (analysis.extractedText.length > 1) {
-        if (this.detectMathContent(analysis.extractedText)) {
+        if (verification.checkedCount > 0 || this.detectMathContent(analysis.extractedText)) {
           triggerReason = 'math_content_detected';
-          commentType = this.detectPotentialMathError(analysis.extractedText) ? 'correction' : 'suggestion';
+          // Only a step the checker actually found wrong counts as a mistake
+          commentType = verification.firstError ? 'correction' : 'suggestion';
         } else if (this.detectQuestionWords(analysis.extractedText)) {
           triggerReason = 'question_detected';
           commentType = 'suggestion';
@@ -163,14 +238,20 @@ export class CanvasAnalysisService {
       }
 
       // Generate contextual prompt for AI
-      const contextPrompt = this.buildContextualPrompt(analysis, triggerReason);
+      const contextPrompt = this.buildContextualPrompt(analysis, triggerReason, verification);
       
-      // Get AI response
+      // Get AI response; with the steps attached it can also mark them on the canvas
       const response = await ApiService.sendChatMessage(
         [{ role: 'user', content: contextPrompt }],
         this.personality,
-        false
+        false,
+        {
+          exercise: this.exercise,
+          regions: analysis.steps ? toAnchors(analysis.steps) : undefined,
+          page: this.page
+        }
       );
+      if (generation !== this.canvasGeneration) return;
 
       const commentary: LiveCommentary = {
         message: response.message,
@@ -181,25 +262,81 @@ export class CanvasAnalysisService {
       };
 
       console.log('Generated commentary:', commentary);
-      this.commentaryCallback(commentary);
+      this.events.emit('commentary', commentary);
+      if (response.annotations?.length) {
+        this.showAnnotations(response.annotations);
+      }
     } catch (error) {
+      if (generation !== this.canvasGeneration) return;
       console.error('Failed to generate live commentary:', error);
       console.error('Error details:', error.message);
+      this.emitError('commentary', error);
     }
   }
 
-  private buildContextualPrompt(analysis: CanvasAnalysisResult, triggerReason: string): string {
-    const text = analysis.extractedText;
+  // Check the new steps against the work before them, so a step is compared with the line it came from
+  private verifyNewWork(analysis: CanvasAnalysisResult): MathVerification {
+    const allSteps = analysis.steps ?? [];
+    // Uploaded images have no step list; their lines are checked on their own
+    const verification = allSteps.length > 0
+      ? verifyMathWork(allSteps.map(step => step.text).join('\n'))
+      : verifyMathWork(analysis.extractedText);
+    // Verified lines are numbered like the steps, so new steps can be picked out by number
+    const newNumbers = new Set(allSteps.filter(step => step.isNew).map(step => step.number));
+    const steps = allSteps.length > 0
+      ? verification.steps.filter(step => newNumbers.has(step.line))
+      : verification.steps;
+
+    return {
+      steps,
+      firstError: steps.find(step => step.status === 'incorrect') ?? null,
+      checkedCount: steps.filter(step => step.status !== 'unchecked').length,
+    };
+  }
+
+  private describeMathCheck(verification: MathVerification): string {
+    const error = verification.firstError;
+    if (error) {
+      const step = (check: MathStepCheck) => check.previousLine
+        ? `from step ${check.previousLine} ("${check.previous}") to step ${check.line} ("${check.text}")`
+        : `step ${check.line} ("${check.text}")`;
+      return ` A checker verified the work and found a mistake going ${step(error)}: ${error.reason}.`
+        + ' Point the student to exactly that step by its number and help them find the slip without giving the answer away.';
+    }
+    if (verification.checkedCount > 0) {
+      return ' A checker verified every step here and they are all correct, so don\'t look for mistakes; ask what comes next.';
+    }
+    return '';
+  }
+
+  private buildContextualPrompt(
+    analysis: CanvasAnalysisResult,
+    triggerReason: string,
+    verification: MathVerification
+  ): string {
+    const steps = analysis.steps ?? [];
+    const newSteps = steps.filter(step => step.isNew);
+    const earlierSteps = steps.filter(step => !step.isNew);
+
+    // Name the new lines by step number and list what came before, so feedback can
+    // refer to the solution as a whole ("step 3 dropped the sign from step 2")
+    const text = newSteps.length > 0 ? formatSolutionSteps(newSteps) : analysis.extractedText.trim();
+    let context = '';
+    if (newSteps.length > 0 && earlierSteps.length > 0) {
+      context = ` (Their earlier steps:\n${formatSolutionSteps(earlierSteps)}\nRefer to steps by their number.)`;
+    } else if (analysis.transcript && analysis.transcript !== text) {
+      context = ` (Their work so far:\n${analysis.transcript})`;
+    }
     
     switch (triggerReason) {
       case 'math_content_detected':
-        return `Check: "${text}". Is this right? If wrong, say what's wrong. If right, what's next?`;
+        return `Check what the student just wrote:\n${text}\nIs this right? If wrong, say what's wrong. If right, what's next?${this.describeMathCheck(verification)}${context}`;
       case 'question_detected':
-        return `You asked: "${text}". What do you think? Break it down step by step.`;
+        return `You asked: "${text}". What do you think? Break it down step by step.${context}`;
       case 'drawing_activity':
-        return `Nice drawing! What does this show? Is it accurate?`;
+        return `Nice drawing! What does this show? Is it accurate?${context}`;
       default:
-        return `I see: "${text}". What's your next step?`;
+        return `I see: "${text}". What's your next step?${context}`;
     }
   }
 
@@ -235,19 +372,6 @@ export class CanvasAnalysisService {
     return questionPatterns.some(pattern => pattern.test(text));
   }
 
-  private detectPotentialMathError(text: string): boolean {
-    // Simple heuristics to detect common math errors
-    const errorPatterns = [
-      /\d+\s*[\+\-\*\/]\s*\d+\s*=\s*[^\d\s]/, // Wrong answer format
-      /0\s*\/\s*\d+\s*=\s*\d+/, // Division by zero misconceptions
-      /\d+\s*\*\s*0\s*=\s*[^0]/, // Multiplication by zero errors
-      /\d+\s*\+\s*\d+\s*=\s*\d+\s*\*\s*\d+/, // Mixed up operations
-      /\b(infinite|undefined|impossible)\b/i, // Student recognizing errors
-    ];
-    
-    return errorPatterns.some(pattern => pattern.test(text));
-  }
-
   private detectLearningKeywords(text: string): boolean {
     const learningPatterns = [
       /\b(definition|theorem|rule|formula|principle)\b/i,
@@ -262,57 +386,152 @@ export class CanvasAnalysisService {
     return learningPatterns.some(pattern => pattern.test(text));
   }
 
-  async analyzeCanvas(canvasElement: HTMLCanvasElement): Promise<CanvasAnalysisResult | null> {
-    if (!canvasElement) return null;
+  async analyzeCanvas(canvas: FabricCanvas): Promise<CanvasAnalysisResult | null> {
+    if (!canvas) return null;
 
-    // Convert canvas to data URL with high quality
-    const imageData = canvasElement.toDataURL('image/png', 1.0);
-    
-    console.log('Canvas analysis - Canvas size:', canvasElement.width, 'x', canvasElement.height);
-    console.log('Canvas analysis - Image data length:', imageData.length);
-    
-    // Check if there's a significant change
-    if (!this.hasSignificantImageChange(imageData)) {
+    // Compare the objects on the canvas with what was there at the last analysis
+    const fingerprint = fingerprintCanvas(canvas);
+    const change = diffCanvas(this.lastFingerprint, fingerprint);
+
+    console.log('Canvas analysis - Change:', change);
+
+    // Small changes are left to accumulate until they add up to something worth reading
+    const changedRegion = change.region;
+    if (!changedRegion || change.significance < MIN_CHANGE_SIGNIFICANCE) {
       return this.lastAnalysis;
     }
+    // The fingerprint only moves on once the change has been read, so a change whose
+    // reading failed or was dropped from the queue is still part of the next diff
+    const generation = this.canvasGeneration;
 
     // Queue the analysis to prevent blocking
     this.queueAnalysis(async () => {
       try {
-        // Perform OCR
-        const ocrResult = await this.performOCR(imageData);
+        this.events.emit('analysis:started', { timestamp: new Date(), change });
+
+        // Only read the area that changed. Earlier regions it touches are read
+        // again as a whole so their text can be replaced rather than split.
+        let readArea = expandBounds(changedRegion, OCR_REGION_MARGIN);
+        const touched = this.regions.filter(region => boundsIntersect(region.bounds, readArea));
+        readArea = touched.reduce((area, region) => unionBounds(area, region.bounds), readArea);
+
+        // The exercise background is left out: only the student's ink is read, and
+        // typed math isn't sent to OCR at all
+        const readOptions = { includeBackground: false, except: isMathObject };
+        const contentBounds = getContentBounds(canvas, readArea, readOptions);
+        const region = contentBounds ? expandBounds(contentBounds, OCR_REGION_MARGIN) : null;
+        const image = region ? await exportRegionImage(canvas, region, readOptions) : null;
+        // Perform OCR (nothing left in the area means nothing to read)
+        const ocrResult = image ? await this.performOCR(image) : { text: '', confidence: 0 };
+        // The page changed while reading: none of this belongs to the new one
+        if (generation !== this.canvasGeneration) return;
+        // A failed read says nothing about the area, so what was read there before stays
+        if (!ocrResult) return;
+        this.lastFingerprint = fingerprint;
+
+        this.regions = this.regions.filter(existing => !touched.includes(existing));
+        const readRegions: OcrRegion[] = [];
+        if (region && ocrResult.text.trim()) {
+          readRegions.push({ bounds: region, text: ocrResult.text.trim(), updatedAt: new Date() });
+          this.regions.push(readRegions[0]);
+        }
+        this.typedRegions = readTypedMath(canvas);
+        const typedInArea = this.typedRegions.filter(typed => boundsIntersect(typed.bounds, readArea));
+        readRegions.push(...typedInArea);
+        this.steps = buildSolutionSteps(this.getRegions(), this.steps);
+
+        // What was read here, handwriting and typed math alike, top to bottom
+        const extractedText = readRegions
+          .sort((a, b) => a.bounds.top - b.bounds.top || a.bounds.left - b.bounds.left)
+          .map(read => read.text)
+          .join('\n');
         
         // Create analysis result
         const analysis: CanvasAnalysisResult = {
-          extractedText: ocrResult.text,
-          confidence: ocrResult.confidence,
+          extractedText,
+          // Typed text is exact
+          confidence: image ? ocrResult.confidence : typedInArea.length > 0 ? 1 : 0,
           timestamp: new Date(),
           hasSignificantChange: true,
-          analysisType: this.determineAnalysisType(ocrResult.text, imageData)
+          analysisType: this.determineAnalysisType(extractedText, image?.size ?? 0),
+          change,
+          region: region ?? undefined,
+          transcript: this.getTranscript(),
+          steps: this.getSteps()
         };
 
         // Store current state
         this.lastAnalysis = analysis;
-        this.lastImageData = imageData;
 
         console.log('Canvas analysis - Extracted text:', analysis.extractedText);
         console.log('Canvas analysis - Confidence:', analysis.confidence);
+        this.events.emit('analysis:completed', analysis);
         
         // Generate live commentary for ANY content - even single characters for competition
-        if (analysis.extractedText.length > 0 || analysis.analysisType === 'drawing') {
-          await this.generateLiveCommentary(analysis);
+        if (analysis.extractedText.length > 0 || (image && analysis.analysisType === 'drawing')) {
+          await this.generateLiveCommentary(analysis, generation);
         }
       } catch (error) {
+        if (generation !== this.canvasGeneration) return;
         console.error('Canvas analysis failed:', error);
+        this.emitError('analysis', error);
       }
     });
 
     return this.lastAnalysis;
   }
 
+  // Full-document transcript: every region's text, top to bottom then left to right
+  getTranscript(): string {
+    return this.getRegions()
+      .sort((a, b) => a.bounds.top - b.bounds.top || a.bounds.left - b.bounds.left)
+      .map(region => region.text)
+      .join('\n');
+  }
+
+  getRegions(): OcrRegion[] {
+    return [...this.regions, ...this.typedRegions];
+  }
+
+  // The student's work as numbered steps in reading order
+  getSteps(): SolutionStep[] {
+    return [...this.steps];
+  }
+
+  // The steps with their positions, for requests that let the tutor mark the canvas
+  getAnchors(): AnnotationAnchor[] {
+    return toAnchors(this.steps);
+  }
+
+  // Hand tutor annotations to the canvas, e.g. ones returned by "Analyze Work"
+  showAnnotations(annotations: TutorAnnotation[]) {
+    this.events.emit('annotations', annotations);
+  }
+
+  // Forget what was read so far, e.g. when a different canvas is opened. Analyses still
+  // waiting in the queue belong to the old canvas and are dropped, and one already
+  // running finishes without touching the new canvas's state.
+  resetCanvasState() {
+    this.canvasGeneration++;
+    this.analysisQueue = [];
+    this.emitQueueChanged();
+    this.lastFingerprint = new Map();
+    this.regions = [];
+    this.typedRegions = [];
+    this.steps = [];
+    this.lastAnalysis = null;
+  }
+
+  // Most recent result of the live analysis, if any
+  getLastAnalysis(): CanvasAnalysisResult | null {
+    return this.lastAnalysis;
+  }
+
   // Method to analyze uploaded images
   async analyzeUploadedImage(imageFile: File): Promise<CanvasAnalysisResult> {
     try {
+      this.events.emit('analysis:started', { timestamp: new Date() });
+
       // Use Mistral OCR directly for uploaded files
       const ocrResult = await ApiService.performOCR(imageFile);
       
@@ -321,8 +540,9 @@ export class CanvasAnalysisService {
         confidence: ocrResult.confidence,
         timestamp: new Date(),
         hasSignificantChange: true,
-        analysisType: this.determineAnalysisType(ocrResult.extractedText, '')
+        analysisType: this.determineAnalysisType(ocrResult.extractedText, imageFile.size)
       };
+      this.events.emit('analysis:completed', analysis);
 
       // Generate commentary for uploaded content
       if (analysis.extractedText.length > 1) {
@@ -332,13 +552,16 @@ export class CanvasAnalysisService {
       return analysis;
     } catch (error) {
       console.error('Image analysis failed:', error);
+      this.emitError('analysis', error);
       throw error;
     }
   }
 
-  // Clean up resources
+  // Drop pending work and all subscribers. Only for tearing the service down for
+  // good (e.g. tests); components should unsubscribe with the function `on` returns.
   async dispose() {
-    // No cleanup needed for Mistral OCR
+    this.analysisQueue = [];
+    this.events.removeAllListeners();
   }
 }
 
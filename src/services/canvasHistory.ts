@@ -0,0 +1,265 @@
+import { util, type Canvas as FabricCanvas, type FabricObject, type IText, type TMat2D } from "fabric";
+import { getUndoableObjects } from "@/lib/canvasObjects";
+
+export interface CanvasCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+export interface CanvasHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+type HistoryListener = (state: CanvasHistoryState) => void;
+
+export class CanvasHistory {
+  private undoStack: CanvasCommand[] = [];
+  private redoStack: CanvasCommand[] = [];
+  private listeners = new Set<HistoryListener>();
+  private applying = false;
+
+  constructor(private readonly limit = 100) {}
+
+  // True while a command is being undone/redone, so canvas listeners can
+  // tell replayed changes apart from new user edits
+  get isApplying(): boolean {
+    return this.applying;
+  }
+
+  // Record a change that has already been applied to the canvas
+  push(command: CanvasCommand) {
+    if (this.applying) return;
+
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift(); // Drop the oldest step
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  // Apply a change and record it
+  execute(command: CanvasCommand) {
+    this.run(() => command.redo());
+    this.push(command);
+  }
+
+  undo(): CanvasCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+
+    this.run(() => command.undo());
+    this.redoStack.push(command);
+    this.notify();
+    return command;
+  }
+
+  redo(): CanvasCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+
+    this.run(() => command.redo());
+    this.undoStack.push(command);
+    this.notify();
+    return command;
+  }
+
+  // Tell listeners about a change made outside of history, e.g. a new exercise background
+  notifyChange() {
+    this.notify();
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  getState(): CanvasHistoryState {
+    return {
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+      undoLabel: this.undoStack[this.undoStack.length - 1]?.label,
+      redoLabel: this.redoStack[this.redoStack.length - 1]?.label,
+    };
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private run(action: () => void) {
+    this.applying = true;
+    try {
+      action();
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// Stacking positions are stored relative to the undoable objects so that regenerating
+// the grid or changing the exercise does not shift where restored objects end up
+const insertContentAt = (canvas: FabricCanvas, obj: FabricObject, contentIndex: number) => {
+  const anchor = getUndoableObjects(canvas)[contentIndex];
+  if (anchor) {
+    canvas.insertAt(canvas.getObjects().indexOf(anchor), obj);
+  } else {
+    canvas.add(obj);
+  }
+};
+
+// An object together with its position among the undoable objects (`getUndoableObjects`)
+export interface IndexedObject {
+  obj: FabricObject;
+  index: number;
+}
+
+const restoreObjects = (canvas: FabricCanvas, entries: IndexedObject[]) => {
+  [...entries]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ obj, index }) => insertContentAt(canvas, obj, index));
+};
+
+const indexEntries = (canvas: FabricCanvas, objects: FabricObject[]): IndexedObject[] => {
+  const content = getUndoableObjects(canvas);
+  return objects.map(obj => ({ obj, index: content.indexOf(obj) }));
+};
+
+const finishChange = (canvas: FabricCanvas) => {
+  canvas.discardActiveObject();
+  canvas.requestRenderAll();
+};
+
+// Objects that were just added to the canvas (paths, shapes, text, images)
+export const createAddCommand = (
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  label: string
+): CanvasCommand => {
+  const entries = indexEntries(canvas, objects);
+
+  return {
+    label,
+    undo: () => {
+      objects.forEach(obj => canvas.remove(obj));
+      finishChange(canvas);
+    },
+    redo: () => {
+      restoreObjects(canvas, entries);
+      finishChange(canvas);
+    },
+  };
+};
+
+// Objects about to be removed (delete, erase, clear). Use with `execute`.
+export const createRemoveCommand = (
+  canvas: FabricCanvas,
+  objects: FabricObject[],
+  label: string
+): CanvasCommand => {
+  const entries = indexEntries(canvas, objects);
+
+  return {
+    label,
+    undo: () => {
+      restoreObjects(canvas, entries);
+      finishChange(canvas);
+    },
+    redo: () => {
+      objects.forEach(obj => canvas.remove(obj));
+      finishChange(canvas);
+    },
+  };
+};
+
+// Objects swapped for others in one go (e.g. a stroke split by the eraser).
+// `removed` carries the positions the objects had before the change.
+export const createReplaceCommand = (
+  canvas: FabricCanvas,
+  removed: IndexedObject[],
+  added: FabricObject[],
+  label: string
+): CanvasCommand => {
+  const addedEntries = indexEntries(canvas, added);
+
+  return {
+    label,
+    undo: () => {
+      added.forEach(obj => canvas.remove(obj));
+      restoreObjects(canvas, removed);
+      finishChange(canvas);
+    },
+    redo: () => {
+      removed.forEach(({ obj }) => canvas.remove(obj));
+      restoreObjects(canvas, addedEntries);
+      finishChange(canvas);
+    },
+  };
+};
+
+// Several commands that should undo as one step
+export const createCompositeCommand = (commands: CanvasCommand[], label: string): CanvasCommand => ({
+  label,
+  undo: () => [...commands].reverse().forEach(command => command.undo()),
+  redo: () => commands.forEach(command => command.redo()),
+});
+
+// Absolute transforms are captured so that moves made through an
+// ActiveSelection can be restored after the selection is discarded
+export const captureTransforms = (objects: FabricObject[]): Map<FabricObject, TMat2D> => {
+  return new Map(objects.map(obj => [obj, obj.calcTransformMatrix()]));
+};
+
+const applyTransforms = (canvas: FabricCanvas, transforms: Map<FabricObject, TMat2D>) => {
+  canvas.discardActiveObject();
+  transforms.forEach((matrix, obj) => {
+    util.applyTransformToObject(obj, matrix);
+    obj.setCoords();
+  });
+  canvas.requestRenderAll();
+};
+
+// Move, scale or rotate of one or more objects
+export const createTransformCommand = (
+  canvas: FabricCanvas,
+  before: Map<FabricObject, TMat2D>,
+  after: Map<FabricObject, TMat2D>,
+  label: string
+): CanvasCommand => ({
+  label,
+  undo: () => applyTransforms(canvas, before),
+  redo: () => applyTransforms(canvas, after),
+});
+
+export const createTextEditCommand = (
+  canvas: FabricCanvas,
+  text: IText,
+  before: string,
+  after: string
+): CanvasCommand => {
+  const apply = (value: string) => {
+    if (text.isEditing) text.exitEditing();
+    text.set({ text: value });
+    text.setCoords();
+    canvas.requestRenderAll();
+  };
+
+  return {
+    label: 'Edit text',
+    undo: () => apply(before),
+    redo: () => apply(after),
+  };
+};
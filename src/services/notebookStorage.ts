@@ -0,0 +1,233 @@
+import type { ExerciseDetails } from "@/services/api";
+import type { CanvasLayer } from "@/lib/canvasLayers";
+
+const DB_NAME = 'doodle-mentor';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const LAST_SESSION_KEY = 'doodle-mentor:last-session';
+
+export const NOTEBOOK_PERSONALITIES = ['calm', 'angry', 'cool', 'lazy'] as const;
+export type NotebookPersonality = typeof NOTEBOOK_PERSONALITIES[number];
+
+// Chat messages are stored with ISO timestamps so they survive structured cloning unchanged
+export interface NotebookMessage {
+  id: string;
+  content: string;
+  isUser: boolean;
+  timestamp: string;
+  type?: 'analysis' | 'help' | 'feedback' | 'live-commentary';
+  isLiveCommentary?: boolean;
+  triggerReason?: string;
+}
+
+// Fabric canvas JSON without the grid
+export interface NotebookCanvasData {
+  version?: string;
+  objects: Record<string, unknown>[];
+  background?: string;
+  // Missing in notebooks saved before layers existed
+  layers?: CanvasLayer[];
+}
+
+// The uploaded exercise image (data URL) and what was read from it
+export interface NotebookExercise extends ExerciseDetails {
+  image: string;
+}
+
+// One sheet of the notebook: its drawing and the exercise worked on there
+export interface NotebookPage {
+  id: string;
+  canvas: NotebookCanvasData | null;
+  exercise?: NotebookExercise | null;
+  // Small PNG (data URL) for the page strip
+  thumbnail?: string;
+}
+
+export interface NotebookSession {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  personality: NotebookPersonality;
+  // Missing in notebooks saved before pages; `canvas` and `exercise` are then its only page
+  pages?: NotebookPage[];
+  activePageId?: string;
+  canvas: NotebookCanvasData | null;
+  messages: NotebookMessage[];
+  // Missing in notebooks saved before exercises were kept
+  exercise?: NotebookExercise | null;
+}
+
+export type NotebookSessionSummary = Omit<NotebookSession, 'canvas' | 'messages' | 'exercise' | 'pages'> & {
+  objectCount: number;
+  messageCount: number;
+  pageCount: number;
+};
+
+export const createNotebookPage = (): NotebookPage => ({
+  id: crypto.randomUUID(),
+  canvas: null,
+  exercise: null,
+});
+
+// The notebook's pages, reading notebooks from before pages as a single page
+export const getNotebookPages = (session: NotebookSession): NotebookPage[] => {
+  if (session.pages?.length) return session.pages;
+  return [{ ...createNotebookPage(), canvas: session.canvas, exercise: session.exercise ?? null }];
+};
+
+export class NotebookStorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SESSION_STORE)) {
+            const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+            store.createIndex('updatedAt', 'updatedAt');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null; // Allow a retry on the next call
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(SESSION_STORE, mode);
+      const request = createRequest(transaction.objectStore(SESSION_STORE));
+
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async listSessions(): Promise<NotebookSessionSummary[]> {
+    try {
+      const sessions = await this.runRequest<NotebookSession[]>('readonly', store => store.getAll());
+
+      return sessions
+        .map(session => {
+          const { canvas, messages, exercise, pages, ...summary } = session;
+          const notebookPages = getNotebookPages(session);
+          return {
+            ...summary,
+            objectCount: notebookPages.reduce((count, page) => count + (page.canvas?.objects.length ?? 0), 0),
+            messageCount: messages.filter(message => message.isUser).length,
+            pageCount: notebookPages.length,
+          };
+        })
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+      console.error('Notebook storage error:', error);
+      throw new Error('Failed to list notebook sessions');
+    }
+  }
+
+  async getSession(id: string): Promise<NotebookSession | null> {
+    try {
+      const session = await this.runRequest<NotebookSession | undefined>('readonly', store => store.get(id));
+      return session ?? null;
+    } catch (error) {
+      console.error('Notebook storage error:', error);
+      throw new Error('Failed to load notebook session');
+    }
+  }
+
+  async saveSession(session: NotebookSession): Promise<NotebookSession> {
+    const saved = { ...session, updatedAt: new Date().toISOString() };
+
+    try {
+      await this.runRequest('readwrite', store => store.put(saved));
+      return saved;
+    } catch (error) {
+      console.error('Notebook storage error:', error);
+      throw new Error('Failed to save notebook session');
+    }
+  }
+
+  async createSession(name: string, personality: NotebookPersonality = 'calm'): Promise<NotebookSession> {
+    const now = new Date().toISOString();
+    const page = createNotebookPage();
+
+    return this.saveSession({
+      id: crypto.randomUUID(),
+      name,
+      createdAt: now,
+      updatedAt: now,
+      personality,
+      pages: [page],
+      activePageId: page.id,
+      canvas: null,
+      messages: [],
+    });
+  }
+
+  async duplicateSession(id: string): Promise<NotebookSession> {
+    const original = await this.getSession(id);
+    if (!original) {
+      throw new Error('Notebook session not found');
+    }
+
+    return this.saveSession({
+      ...structuredClone(original),
+      id: crypto.randomUUID(),
+      name: `${original.name} (copy)`,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  // A new notebook made from an imported file
+  async importSession(notebook: Pick<NotebookSession, 'name' | 'personality' | 'pages' | 'activePageId' | 'messages'>): Promise<NotebookSession> {
+    const now = new Date().toISOString();
+
+    return this.saveSession({
+      ...notebook,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      canvas: null,
+    });
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    try {
+      await this.runRequest('readwrite', store => store.delete(id));
+      if (this.getLastSessionId() === id) {
+        localStorage.removeItem(LAST_SESSION_KEY);
+      }
+    } catch (error) {
+      console.error('Notebook storage error:', error);
+      throw new Error('Failed to delete notebook session');
+    }
+  }
+
+  // Remember which notebook to reopen when the app is loaded at "/"
+  setLastSessionId(id: string) {
+    localStorage.setItem(LAST_SESSION_KEY, id);
+  }
+
+  getLastSessionId(): string | null {
+    return localStorage.getItem(LAST_SESSION_KEY);
+  }
+}
+
+// Singleton instance
+export const notebookStorage = new NotebookStorageService();